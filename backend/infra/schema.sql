@@ -7,6 +7,9 @@ CREATE TABLE IF NOT EXISTS users (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+ALTER TABLE users ADD COLUMN IF NOT EXISTS max_warm_workspaces INTEGER;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP WITH TIME ZONE;
+
 CREATE TABLE IF NOT EXISTS api_keys (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     user_id UUID NOT NULL REFERENCES users(id),
@@ -16,6 +19,13 @@ CREATE TABLE IF NOT EXISTS api_keys (
     revoked_at TIMESTAMP WITH TIME ZONE
 );
 
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS scopes TEXT[]; -- read, run, admin; NULL = unrestricted (keys created before scopes)
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_token_hash ON api_keys(token_hash);
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id);
+
 CREATE TABLE IF NOT EXISTS projects (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
@@ -24,6 +34,67 @@ CREATE TABLE IF NOT EXISTS projects (
     created_at TIMESTAMP DEFAULT NOW()
 );
 
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS resource_profile JSONB;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS base_ref TEXT;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS subdirectory TEXT;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS clone_depth INTEGER;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS workspace_mode TEXT NOT NULL DEFAULT 'per_user'; -- per_user, shared
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS command_policy JSONB;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS egress_mode TEXT NOT NULL DEFAULT 'open'; -- none, allowlist, open
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS egress_allowlist TEXT[]; -- host or *.domain, optionally :port
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS test_config JSONB;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS artifact_config JSONB;
+
+CREATE TABLE IF NOT EXISTS teams (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    created_by UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS team_members (
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL, -- admin, member
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user ON team_members(user_id);
+
+-- Project access granted to a user or to every member of a team; the creator (projects.user_id) is always an owner
+CREATE TABLE IF NOT EXISTS project_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+    role TEXT NOT NULL, -- owner, editor, viewer
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK ((user_id IS NULL) <> (team_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_members_user ON project_members(project_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_members_team ON project_members(project_id, team_id) WHERE team_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS project_credentials (
+    project_id UUID PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL, -- https-token, ssh-key
+    username TEXT,
+    secret_ciphertext TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS project_secrets (
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    target TEXT NOT NULL, -- env, file
+    value_ciphertext TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (project_id, name)
+);
+
 CREATE TABLE IF NOT EXISTS workspaces (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
@@ -43,7 +114,7 @@ CREATE TABLE IF NOT EXISTS runs (
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
     workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
-    status TEXT NOT NULL, -- queued, running, succeeded, failed, timeout
+    status TEXT NOT NULL, -- queued, running, succeeded, failed, timeout, cancelled
     prompt TEXT NOT NULL,
     final_text TEXT,
     diff TEXT,
@@ -60,8 +131,37 @@ CREATE TABLE IF NOT EXISTS runs (
     env_snapshot JSONB
 );
 
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS queued_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS base_ref TEXT;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS publish_branch TEXT;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS publish_commit TEXT;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS pr_url TEXT;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS cached_input_tokens INTEGER;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS workspace_action TEXT; -- accepted, discarded, reverted
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS workspace_action_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS accepted_commit TEXT;
+-- Orchestrator instance executing a running run, and when it last confirmed it was still alive
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS owner_instance TEXT;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP WITH TIME ZONE;
+
 CREATE INDEX IF NOT EXISTS idx_runs_project_started ON runs(project_id, started_at DESC);
 CREATE INDEX IF NOT EXISTS idx_runs_user_started ON runs(user_id, started_at DESC);
+-- Quota usage counts runs from when they were queued
+CREATE INDEX IF NOT EXISTS idx_runs_project_counted ON runs(project_id, (coalesce(queued_at, started_at)));
+CREATE INDEX IF NOT EXISTS idx_runs_user_counted ON runs(user_id, (coalesce(queued_at, started_at)));
+CREATE INDEX IF NOT EXISTS idx_runs_queued ON runs(project_id, queued_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_runs_running ON runs(owner_instance) WHERE status = 'running';
+
+CREATE TABLE IF NOT EXISTS run_events (
+    run_id UUID NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (run_id, seq)
+);
 
 CREATE TABLE IF NOT EXISTS evidence_bundles (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -70,8 +170,71 @@ CREATE TABLE IF NOT EXISTS evidence_bundles (
     project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
     workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
     status TEXT NOT NULL, -- pending, ready, error
-    bundle_path TEXT,
+    bundle_path TEXT, -- evidence store key
     error_message TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-);
\ No newline at end of file
+);
+
+ALTER TABLE evidence_bundles ADD COLUMN IF NOT EXISTS artifacts JSONB;
+ALTER TABLE evidence_bundles ADD COLUMN IF NOT EXISTS artifacts_path TEXT; -- evidence store key prefix
+
+-- Per-user and per-project quota overrides; limits without a row fall back to QUOTA_* env defaults
+CREATE TABLE IF NOT EXISTS quota_limits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    scope TEXT NOT NULL, -- user, project
+    scope_id UUID NOT NULL,
+    metric TEXT NOT NULL, -- runs, tokens, run_seconds
+    "window" TEXT NOT NULL, -- hour, day, month
+    limit_value BIGINT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (scope, scope_id, metric, "window")
+);
+
+CREATE TABLE IF NOT EXISTS audit_events (
+    id BIGSERIAL PRIMARY KEY,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    action TEXT NOT NULL,
+    outcome TEXT NOT NULL, -- success, failure
+    actor_user_id UUID,
+    actor_key_id UUID,
+    project_id UUID,
+    workspace_id UUID,
+    run_id UUID,
+    target_type TEXT,
+    target_id TEXT,
+    ip TEXT,
+    request_id TEXT,
+    details JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_occurred ON audit_events(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_project ON audit_events(project_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events(actor_user_id, id DESC);
+
+-- Outbound connections the egress proxy refused, copied into the evidence of runs they occurred in
+CREATE TABLE IF NOT EXISTS egress_events (
+    id BIGSERIAL PRIMARY KEY,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+    method TEXT NOT NULL, -- CONNECT for tunnels, else the HTTP method
+    host TEXT NOT NULL,
+    port INTEGER NOT NULL,
+    reason TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_egress_events_workspace ON egress_events(workspace_id, occurred_at);
+
+-- The audit log is append-only
+CREATE OR REPLACE FUNCTION reject_audit_event_change() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+CREATE TRIGGER audit_events_append_only
+    BEFORE UPDATE OR DELETE ON audit_events
+    FOR EACH ROW EXECUTE FUNCTION reject_audit_event_change();
@@ -0,0 +1,164 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Same shape as the worker payload built by the orchestrator's artifactLimits
+export interface ArtifactConfig {
+  // Globs relative to the working directory: *, ?, ** and {a,b}
+  patterns: string[];
+  maxFileBytes: number;
+  maxTotalBytes: number;
+}
+
+export interface ArtifactEntry {
+  name: string; // Path relative to the working directory
+  path: string; // Location in the evidence directory, e.g. artifacts/coverage/lcov.info
+  size: number;
+  sha256: string;
+  mimeType: string;
+}
+
+export interface SkippedArtifact {
+  name: string;
+  size: number;
+  reason: string;
+}
+
+// Stop walking huge trees rather than stalling the run
+const MAX_VISITED_ENTRIES = 50000;
+
+const MIME_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.info': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tgz': 'application/gzip',
+  '.tar': 'application/x-tar'
+};
+
+export function mimeTypeFor(file: string): string {
+  return MIME_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Compile a glob to a regex over `/`-separated relative paths. `**` spans directories, `*` and `?` don't.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const glob = pattern.replace(/^\.\//, '');
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end < 0) {
+        source += '\\{';
+        continue;
+      }
+      const options = glob.slice(i + 1, end).split(',').map(option => option.replace(/[.+^$()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*'));
+      source += `(?:${options.join('|')})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Regular files under `root` (symlinks are never followed), as relative `/`-separated paths
+function listFiles(root: string, includeNodeModules: boolean): string[] {
+  const files: string[] = [];
+  const pending = [''];
+  let visited = 0;
+  while (pending.length > 0 && visited < MAX_VISITED_ENTRIES) {
+    const dir = pending.pop()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(root, dir), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      visited++;
+      const relative = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (entry.name === '.git' || (entry.name === 'node_modules' && !includeNodeModules)) continue;
+        pending.push(relative);
+      } else if (entry.isFile()) {
+        files.push(relative);
+      }
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Copy the files matching the configured patterns from `root` into `<evidenceDir>/artifacts/`,
+ * keeping their relative paths. Files over the per-file limit, or past the total limit, are skipped.
+ */
+export function collectArtifacts(root: string, evidenceDir: string, config: ArtifactConfig): { artifacts: ArtifactEntry[]; skipped: SkippedArtifact[] } {
+  const matchers = config.patterns.map(globToRegExp);
+  const includeNodeModules = config.patterns.some(pattern => pattern.includes('node_modules'));
+  const artifacts: ArtifactEntry[] = [];
+  const skipped: SkippedArtifact[] = [];
+  let totalBytes = 0;
+
+  for (const name of listFiles(root, includeNodeModules)) {
+    if (!matchers.some(matcher => matcher.test(name))) continue;
+
+    const source = path.join(root, name);
+    const size = fs.statSync(source).size;
+    if (size > config.maxFileBytes) {
+      skipped.push({ name, size, reason: `Larger than the per-file limit of ${config.maxFileBytes} bytes` });
+      continue;
+    }
+    if (totalBytes + size > config.maxTotalBytes) {
+      skipped.push({ name, size, reason: `Would exceed the total limit of ${config.maxTotalBytes} bytes` });
+      continue;
+    }
+
+    const content = fs.readFileSync(source);
+    const target = path.join(evidenceDir, 'artifacts', name);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+    totalBytes += size;
+
+    artifacts.push({
+      name,
+      path: `artifacts/${name}`,
+      size,
+      sha256: crypto.createHash('sha256').update(content).digest('hex'),
+      mimeType: mimeTypeFor(name)
+    });
+  }
+
+  return { artifacts, skipped };
+}
@@ -0,0 +1,49 @@
+// Run by the shell wrappers of command-gate before the real shell: `command-gate-check <shell> <args...>`.
+// Exits 0 if the shell may run, 1 (after explaining why on stderr) if the command policy denies it.
+import * as fs from 'fs';
+import * as path from 'path';
+import { commandLine, GATE_POLICY_FILE } from './command-gate.js';
+import { CommandPolicy, DEFAULT_COMMAND_POLICY, evaluateCommand } from './policy.js';
+
+// Codex's own binary, also when it re-executes itself as its Linux sandbox helper
+const CODEX_EXECUTABLES = ['codex', 'codex-linux-sandbox'];
+
+function parentOf(pid: number): number | null {
+    try {
+        const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf8');
+        // The command name (2nd field) may contain spaces and parentheses; the parent pid follows the state
+        return parseInt(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[1], 10);
+    } catch {
+        return null;
+    }
+}
+
+// Shells started by what the agent runs (npm scripts, make, nested scripts) belong to an already
+// checked command; only the command Codex itself starts is evaluated
+function startedByCodex(): boolean {
+    const invoker = parentOf(process.ppid);
+    if (invoker === null) return true;
+    try {
+        return CODEX_EXECUTABLES.includes(path.basename(fs.readlinkSync(`/proc/${invoker}/exe`)));
+    } catch {
+        return true;
+    }
+}
+
+function loadPolicy(): CommandPolicy {
+    try {
+        return JSON.parse(fs.readFileSync(GATE_POLICY_FILE, 'utf8'));
+    } catch {
+        return DEFAULT_COMMAND_POLICY;
+    }
+}
+
+const argv = process.argv.slice(2);
+if (startedByCodex()) {
+    const command = commandLine(argv);
+    const decision = evaluateCommand(loadPolicy(), command);
+    if (!decision.allowed) {
+        process.stderr.write(`Command rejected by security policy: ${command} (${decision.reason || 'denied'})\n`);
+        process.exit(1);
+    }
+}
@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { CommandPolicy } from './policy.js';
+
+// Outside the Codex sandbox's writable roots (the repo and /tmp), so commands cannot rewrite the policy
+export const COMMAND_GATE_DIR = process.env.COMMAND_GATE_DIR || '/workspace/.command-gate';
+export const GATE_POLICY_FILE = path.join(COMMAND_GATE_DIR, 'policy.json');
+
+const GATED_SHELLS = ['bash', 'sh', 'dash', 'zsh'];
+
+function quote(value: string): string {
+    return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// The command line an argv stands for, in the form the policy evaluates
+export function commandLine(argv: string[]): string {
+    return argv.map(quote).join(' ');
+}
+
+function findExecutable(name: string, dirs: string[]): string | null {
+    for (const dir of dirs) {
+        const candidate = path.join(dir, name);
+        try {
+            fs.accessSync(candidate, fs.constants.X_OK);
+            return candidate;
+        } catch {
+            // Not in this directory
+        }
+    }
+    return null;
+}
+
+/**
+ * Put a wrapper for each shell ahead of the real one on PATH. Codex runs the agent's commands as
+ * `bash -lc '<script>'`, so every such command is checked against GATE_POLICY_FILE by
+ * command-gate-check before the real shell starts; a denied command never runs and exits with 126.
+ * Commands Codex starts without a shell found on PATH are only caught once started (see streamThreadRun).
+ */
+export function installCommandGate() {
+    const binDir = path.join(COMMAND_GATE_DIR, 'bin');
+    const pathDirs = (process.env.PATH || '').split(':').filter(dir => dir && path.resolve(dir) !== binDir);
+    // Runs with the worker's own loader flags, so the checker also works under tsx
+    const checker = fileURLToPath(new URL(`./command-gate-check${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url));
+    const node = [process.execPath, ...process.execArgv, checker].map(quote).join(' ');
+
+    fs.mkdirSync(binDir, { recursive: true });
+    for (const shell of GATED_SHELLS) {
+        const real = findExecutable(shell, pathDirs);
+        if (!real) continue;
+        const wrapper = [
+            '#!/bin/sh',
+            `${node} ${shell} "$@" || exit 126`,
+            `exec ${quote(real)} "$@"`,
+            ''
+        ].join('\n');
+        fs.writeFileSync(path.join(binDir, shell), wrapper, { mode: 0o755 });
+    }
+    process.env.PATH = [binDir, ...pathDirs].join(':');
+}
+
+// The policy the wrappers enforce; written when a turn starts
+export function setGatePolicy(policy: CommandPolicy) {
+    fs.writeFileSync(GATE_POLICY_FILE, JSON.stringify(policy));
+}
@@ -5,6 +5,12 @@ import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
 import { logger } from './logger.js';
+import { collectedSpans, enterTrace, SpanData, withSpan } from './tracing.js';
+import { CommandPolicy, DEFAULT_COMMAND_POLICY, evaluateCommand, PolicyDecision } from './policy.js';
+import { redactSecrets } from './secrets.js';
+import { parseJUnit, parseTap, readTestReport, TestConfig, TestReport } from './test-report.js';
+import { ArtifactConfig, collectArtifacts } from './artifacts.js';
+import { installCommandGate, setGatePolicy } from './command-gate.js';
 
 const execAsync = promisify(exec);
 const fastify = Fastify({
@@ -15,6 +21,7 @@ const fastify = Fastify({
 // Middleware to attach request ID and logger to request context
 fastify.addHook('onRequest', (request, reply, done) => {
   request.log = logger.child({ requestId: request.id });
+  enterTrace(request.headers.traceparent);
   done();
 });
 
@@ -36,8 +43,9 @@ fastify.setErrorHandler((error, request, reply) => {
 // persisting the thread in memory for the life of the container is acceptable per DevGuide.
 let thread: any = null;
 
-// Ensure we are in the correct directory for running git commands and codex
-const REPO_PATH = '/workspace/repo';
+// Ensure we are in the correct directory for running git commands and codex.
+// Monorepo projects can point the worker at a subdirectory of the clone.
+const REPO_PATH = path.join('/workspace/repo', process.env.REPO_SUBDIR || '');
 const MOCK_MEMORY_FILE = path.join(REPO_PATH, '.mock_memory.json');
 
 const apiKey = process.env.OPENAI_API_KEY;
@@ -45,51 +53,169 @@ const forceMock = process.env.FORCE_MOCK_CODEX === 'true';
 const isMock = forceMock || !apiKey || apiKey === 'dummy-key' || apiKey.startsWith('sk-dummy');
 
 const codex = isMock ? null : new Codex({ apiKey });
+// Codex inherits the worker's PATH, and with it the shell wrappers that apply the command policy
+if (!isMock) installCommandGate();
+// Unset means the SDK's default model
+const CODEX_MODEL = process.env.CODEX_MODEL;
 
-// Hardening: Command Whitelist
-const ALLOWED_COMMANDS = [
-  'npm test',
-  'npm install', // Often needed before test
-  'pytest',
-  'ls',
-  'cat',
-  'git',
-  'echo', // Useful for mocking/debug
-  'pwd',
-  // Add others as needed, but STRICTLY block risky ones
-];
-
-// Risky commands explicitly blocked (just in case regex matches partially)
-const BLOCKED_COMMANDS = ['rm', 'curl', 'wget', 'chmod', 'chown', 'sudo'];
-
-function isCommandAllowed(cmd: string): boolean {
-    const trimmed = cmd.trim();
-    // Check if starts with allowed command
-    const allowed = ALLOWED_COMMANDS.some(ac => trimmed.startsWith(ac));
-    if (!allowed) return false;
-
-    // Check for blocked substrings or chained commands if simple whitelist isn't enough
-    // For v0.1, strict prefix match + no chaining characters might be safest, but 'npm test' is complex.
-    // Let's check if it contains dangerous characters for now?
-    // Or just simple allowed list check.
-    // We should also check if it STARTS with a blocked command (redundant if we only allow whitelist)
-    // But we must prevent chaining like "ls && rm -rf /"
-    
-    if (trimmed.includes('&&') || trimmed.includes(';') || trimmed.includes('|')) {
-        // Disallow chaining for security Hardening
-        return false;
+interface RunBody {
+  text: string;
+  runId: string;
+  stream?: boolean;
+  // The project's command policy; DEFAULT_COMMAND_POLICY if omitted
+  commandPolicy?: CommandPolicy;
+  // Run the project's tests after the turn (opt-in per project)
+  testConfig?: TestConfig;
+  // Files to keep as artifacts in the run's evidence
+  artifactConfig?: ArtifactConfig;
+}
+
+// Token usage of a turn as reported by the SDK; all zero in mock mode
+interface TokenUsage {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+}
+
+const NO_USAGE: TokenUsage = { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0 };
+
+function toTokenUsage(usage: any): TokenUsage {
+  if (!usage) return { ...NO_USAGE };
+  return {
+    inputTokens: usage.input_tokens || 0,
+    cachedInputTokens: usage.cached_input_tokens || 0,
+    outputTokens: usage.output_tokens || 0
+  };
+}
+
+// Incremental events written as NDJSON when /run is called with `stream: true`.
+// The final line is always either `result` or `error`.
+type WorkerStreamEvent =
+  | { type: 'reasoning'; delta: string }
+  | { type: 'token'; delta: string }
+  | {
+      type: 'tool-call';
+      callId: string;
+      tool: string;
+      status: 'started' | 'completed' | 'failed';
+      command?: string;
+      exitCode?: number;
+      output?: string;
+    }
+  | { type: 'test-result'; report: TestReport }
+  | { type: 'result'; finalText: string; diff: string; threadId: string; gitCommit: string; baseRef: string; cancelled?: boolean; usage: TokenUsage; model: string | null; testReport?: TestReport; testOutput?: string; spans: SpanData[] }
+  | {
+      type: 'policy-violation';
+      command: string;
+      argv: string[][];
+      reason: string;
+      rule?: number;
+      network: boolean;
+      // `agent`: run by the worker for the agent; `sdk`: started by Codex itself, which aborts the turn;
+      // `test`: the project's test command
+      source: 'agent' | 'sdk' | 'test';
     }
+  | { type: 'error'; error: string; details?: string; spans: SpanData[] };
 
-    return true;
+const RUN_TIMEOUT_MS = 60000;
+
+type PolicyViolationEvent = Extract<WorkerStreamEvent, { type: 'policy-violation' }>;
+
+// The run currently executing a Codex turn. The container serves one project,
+// and the orchestrator serializes runs per project, so there is at most one.
+let activeRun: {
+    runId: string;
+    controller: AbortController;
+    policy: CommandPolicy;
+    onViolation: (event: PolicyViolationEvent) => void;
+} | null = null;
+
+class PolicyViolationError extends Error {
+    constructor(command: string, reason: string) {
+        super(`Command rejected by security policy: ${command} (${reason})`);
+        this.name = 'PolicyViolationError';
+    }
 }
 
-interface RunBody {
-  text: string;
-  runId: string;
+class RunCancelledError extends Error {
+    constructor() {
+        super('Run cancelled');
+        this.name = 'RunCancelledError';
+    }
+}
+
+class RunTimeoutError extends Error {
+    constructor() {
+        super(`Codex run timed out after ${RUN_TIMEOUT_MS / 1000} seconds`);
+        this.name = 'RunTimeoutError';
+    }
+}
+
+// Reject when the timeout elapses or the run is cancelled, whichever comes first
+function withTimeout<T>(promise: Promise<T>, ms: number, signal?: AbortSignal): Promise<T> {
+    let timer: NodeJS.Timeout;
+    let onAbort = () => {};
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new RunTimeoutError()), Math.max(ms, 0));
+        onAbort = () => reject(new RunCancelledError());
+        if (signal?.aborted) onAbort();
+        signal?.addEventListener('abort', onAbort);
+    });
+    return Promise.race([promise, timeoutPromise]).finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    });
 }
 
-// Helper to execute commands and log to evidence
-async function runCommand(command: string, runId: string, ignoreError = false): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+function truncateOutput(output: string): string {
+    return output.length > 8192 ? output.substring(0, 8192) + '...[TRUNCATED]' : output;
+}
+
+function appendCommandLog(runId: string, entry: object) {
+    if (!runId) return;
+    const evidenceDir = `/workspace/evidence/${runId}`;
+    try {
+        fs.mkdirSync(evidenceDir, { recursive: true });
+        fs.appendFileSync(path.join(evidenceDir, 'command_log.jsonl'), JSON.stringify(entry) + '\n');
+    } catch (err) {
+        logger.error({ err }, 'Failed to write to command_log.jsonl');
+    }
+}
+
+// Log a blocked command to command_log.jsonl and report it as a policy-violation event
+function recordPolicyViolation(runId: string, command: string, decision: PolicyDecision, source: PolicyViolationEvent['source']) {
+    const violation: PolicyViolationEvent = {
+        type: 'policy-violation',
+        command: redactSecrets(command),
+        argv: decision.commands.map(argv => argv.map(redactSecrets)),
+        reason: decision.reason || 'Denied by the command policy',
+        rule: decision.rule,
+        network: decision.network,
+        source
+    };
+    logger.warn({ runId, ...violation }, 'Command policy violation');
+    appendCommandLog(runId, { ts: new Date().toISOString(), ...violation });
+    if (activeRun && activeRun.runId === runId) {
+        activeRun.onViolation(violation);
+    }
+}
+
+// Helper to execute commands and log to evidence.
+// `agent` commands run on behalf of the agent and `test` is the project's configured test command; both
+// must pass the run's command policy before they start. `worker` commands are the worker's own fixed git plumbing.
+// Why a command was stopped before it exited by itself: the run was cancelled or aborted, its timeout
+// elapsed, or its output overflowed the buffer
+type CommandTermination = 'aborted' | 'timeout' | 'max-buffer';
+
+async function runCommand(
+    command: string,
+    runId: string,
+    ignoreError = false,
+    source: 'worker' | 'agent' | 'test' = 'worker',
+    timeoutMs = 0,
+    // The run's policy when the command runs outside its turn (tests)
+    runPolicy?: CommandPolicy
+): Promise<{ stdout: string; stderr: string; exitCode: number; terminated?: CommandTermination }> {
     // If no runId, we might be in a legacy context or early init.
     // Fallback to simple execAsync or skip logging?
     // Requirement says "Worker must append...". We assume runId is always present for /run.
@@ -107,38 +233,65 @@ async function runCommand(command: string, runId: string, ignoreError = false):
         }
     }
 
+    let network: boolean | undefined;
+    if (source !== 'worker') {
+        const policy = runPolicy || (activeRun && activeRun.runId === runId ? activeRun.policy : DEFAULT_COMMAND_POLICY);
+        const decision = evaluateCommand(policy, command);
+        if (!decision.allowed) {
+            recordPolicyViolation(runId, command, decision, source);
+            throw new PolicyViolationError(redactSecrets(command), decision.reason || 'denied');
+        }
+        network = decision.network;
+    }
+
     const ts = new Date().toISOString();
     const cwd = process.cwd();
     let stdout = '';
     let stderr = '';
     let exitCode = 0;
+    let terminated: CommandTermination | undefined;
 
-    try {
-        const result = await execAsync(command);
-        stdout = result.stdout;
-        stderr = result.stderr;
-    } catch (e: any) {
-        stdout = e.stdout || '';
-        stderr = e.stderr || e.message;
-        exitCode = e.code || 1;
-    }
+    // Commands started during an active turn are killed if that run is cancelled
+    const signal = activeRun && activeRun.runId === runId && !activeRun.controller.signal.aborted
+        ? activeRun.controller.signal
+        : undefined;
+
+    await withSpan('command', { command, runId }, async () => {
+        try {
+            const result = await execAsync(command, { signal, timeout: timeoutMs, maxBuffer: 16 * 1024 * 1024 });
+            stdout = result.stdout;
+            stderr = result.stderr;
+        } catch (e: any) {
+            stdout = e.stdout || '';
+            stderr = e.stderr || e.message;
+            // `code` is the exit status, or a Node error code when the command never exited on its own
+            exitCode = typeof e.code === 'number' ? e.code : 1;
+            if (e.name === 'AbortError' || e.code === 'ABORT_ERR') {
+                terminated = 'aborted';
+            } else if (e.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+                terminated = 'max-buffer';
+            } else if (e.killed && timeoutMs > 0) {
+                terminated = 'timeout';
+            }
+        }
+    });
 
     if (runId) {
         const logEntry = {
             ts,
             type: 'command',
-            command,
+            command: redactSecrets(command),
+            source,
+            ...(network !== undefined ? { network } : {}),
             cwd,
             exitCode,
-            stdout: stdout.length > 8192 ? stdout.substring(0, 8192) + '...[TRUNCATED]' : stdout,
-            stderr: stderr.length > 8192 ? stderr.substring(0, 8192) + '...[TRUNCATED]' : stderr
+            ...(terminated ? { terminated } : {}),
+            // Redacted before truncating, so a secret cut in half cannot leak its prefix
+            stdout: truncateOutput(redactSecrets(stdout)),
+            stderr: truncateOutput(redactSecrets(stderr))
         };
 
-        try {
-            fs.appendFileSync(logFile, JSON.stringify(logEntry) + '\n');
-        } catch (err) {
-            logger.error({ err }, 'Failed to write to command_log.jsonl');
-        }
+        appendCommandLog(runId, logEntry);
     }
 
     if (exitCode !== 0 && !ignoreError) {
@@ -149,17 +302,17 @@ async function runCommand(command: string, runId: string, ignoreError = false):
         throw err;
     }
 
-    return { stdout, stderr, exitCode };
+    return { stdout, stderr, exitCode, terminated };
 }
 
-async function generateOutputsManifest(runId: string, gitCommit: string) {
+async function generateOutputsManifest(runId: string, gitCommit: string, startTree: string) {
     const evidenceDir = `/workspace/evidence/${runId}`;
     const outputFile = path.join(evidenceDir, 'outputs.json');
     
     let diffSummary = { filesChanged: 0, insertions: 0, deletions: 0 };
     try {
          // Use runCommand to log the stats gathering too
-         const { stdout } = await runCommand('git diff --stat --cached', runId, true);
+         const { stdout } = await runCommand(`git diff --stat --cached ${startTree}`, runId, true);
          
          // Parse: " 2 files changed, 4 insertions(+), 1 deletion(-)"
          const match = stdout.match(/(\d+) files? changed, (\d+) insertions?\(\+\), (\d+) deletions?\(-\)/);
@@ -189,6 +342,95 @@ async function generateOutputsManifest(runId: string, gitCommit: string) {
     }
 }
 
+// Test output kept on the run (runs.test_output) and in the evidence bundle
+const MAX_TEST_OUTPUT = 256 * 1024;
+const DEFAULT_TEST_TIMEOUT_SECONDS = 300;
+
+// Run the project's test command and parse its results into a report.
+// A test command the run's policy denies is not started and reported as an error.
+async function runProjectTests(runId: string, config: TestConfig, policy: CommandPolicy): Promise<{ report: TestReport; output: string }> {
+    const timeoutMs = (config.timeoutSeconds || DEFAULT_TEST_TIMEOUT_SECONDS) * 1000;
+    const start = Date.now();
+    let rejected: string | undefined;
+    const { stdout, stderr, exitCode, terminated } = await withSpan('tests', { runId, format: config.format }, async () => {
+        try {
+            return await runCommand(config.command, runId, true, 'test', timeoutMs, policy);
+        } catch (err) {
+            if (!(err instanceof PolicyViolationError)) throw err;
+            rejected = err.message;
+            // What a shell reports for a command it cannot execute
+            return { stdout: '', stderr: '', exitCode: 126, terminated: undefined };
+        }
+    });
+    const durationMs = Date.now() - start;
+
+    let error: string | undefined = rejected;
+    let results = config.format === 'tap' ? parseTap(stdout) : parseJUnit(stdout);
+    if (!rejected && config.format === 'junit' && config.reportPath) {
+        try {
+            results = parseJUnit(readTestReport(process.cwd(), config.reportPath));
+        } catch (err: any) {
+            error = err.message;
+        }
+    }
+    if (terminated === 'timeout') {
+        error = `Test command timed out after ${timeoutMs / 1000}s`;
+    } else if (terminated === 'max-buffer') {
+        error = 'Test command produced more output than the worker buffers and was stopped';
+    } else if (!error && results.total === 0 && exitCode !== 0) {
+        error = `Test command exited with ${exitCode} without reporting any tests`;
+    }
+
+    const report: TestReport = {
+        format: config.format,
+        command: config.command,
+        exitCode,
+        durationMs,
+        status: error ? 'error' : results.failed > 0 || exitCode !== 0 ? 'failed' : 'passed',
+        ...results,
+        ...(error ? { error } : {})
+    };
+
+    const combined = redactSecrets(stderr ? `${stdout}\n${stderr}` : stdout);
+    const output = combined.length > MAX_TEST_OUTPUT ? combined.substring(0, MAX_TEST_OUTPUT) + '...[TRUNCATED]' : combined;
+
+    const evidenceDir = `/workspace/evidence/${runId}`;
+    try {
+        fs.mkdirSync(evidenceDir, { recursive: true });
+        fs.writeFileSync(path.join(evidenceDir, 'test_report.json'), JSON.stringify(report, null, 2));
+        fs.writeFileSync(path.join(evidenceDir, 'test_output.txt'), output);
+    } catch (e) {
+        logger.error({ err: e }, 'Failed to write test report to evidence');
+    }
+    updateOutputsManifest(runId, { tests: report });
+
+    return { report, output };
+}
+
+// Collect the project's artifacts into the run's evidence and list them in outputs.json
+async function collectRunArtifacts(runId: string, config: ArtifactConfig) {
+    await withSpan('artifacts.collect', { runId, patterns: config.patterns.length }, async () => {
+        try {
+            const { artifacts, skipped } = collectArtifacts(process.cwd(), `/workspace/evidence/${runId}`, config);
+            logger.info({ runId, collected: artifacts.length, skipped: skipped.length }, 'Artifacts collected');
+            updateOutputsManifest(runId, { artifacts, skippedArtifacts: skipped });
+        } catch (e) {
+            logger.error({ err: e }, 'Failed to collect artifacts');
+        }
+    });
+}
+
+// Merge fields into outputs.json, which is written when the turn is finalized
+function updateOutputsManifest(runId: string, fields: Record<string, unknown>) {
+    const manifestFile = path.join(`/workspace/evidence/${runId}`, 'outputs.json');
+    try {
+        const manifest = JSON.parse(fs.readFileSync(manifestFile, 'utf8'));
+        fs.writeFileSync(manifestFile, JSON.stringify({ ...manifest, ...fields }, null, 2));
+    } catch (e) {
+        logger.error({ err: e }, 'Failed to update outputs.json');
+    }
+}
+
 function saveMockState(lastCreatedFile: string) {
     try {
         fs.writeFileSync(MOCK_MEMORY_FILE, JSON.stringify({ lastCreatedFile }));
@@ -250,27 +492,25 @@ async function getThread(existingId?: string) {
                 if (cmd.toLowerCase() === 'tests' || cmd.toLowerCase() === 'test') {
                      try {
                          if (fs.existsSync('test.sh')) {
-                             const { stdout, stderr } = await runCommand('bash test.sh', runId || '');
+                             const { stdout, stderr } = await runCommand('bash test.sh', runId || '', false, 'agent');
                              return { text: `Test Results:\n${stdout}\n${stderr}` };
                          }
                          if (fs.existsSync('package.json')) {
-                             const { stdout, stderr } = await runCommand('npm test', runId || '');
+                             const { stdout, stderr } = await runCommand('npm test', runId || '', false, 'agent');
                              return { text: `Test Results:\n${stdout}\n${stderr}` };
                          }
                          return { text: 'No test suite found.' };
                      } catch (e: any) {
+                         if (e instanceof PolicyViolationError) return { text: e.message };
                          return { text: `Test Execution Failed:\n${e.message}\n${e.stdout}\n${e.stderr}` };
                      }
                 }
 
-                if (!isCommandAllowed(cmd)) {
-                     return { text: `Command rejected by security policy: ${cmd}` };
-                }
-
                 try {
-                     const { stdout, stderr } = await runCommand(cmd, runId || '');
+                     const { stdout, stderr } = await runCommand(cmd, runId || '', false, 'agent');
                      return { text: `Command Output:\n${stdout}\n${stderr}` };
                 } catch (e: any) {
+                     if (e instanceof PolicyViolationError) return { text: `Command rejected by security policy: ${cmd}` };
                      return { text: `Command Failed:\n${e.message}\n${e.stdout}\n${e.stderr}` };
                 }
             }
@@ -280,15 +520,16 @@ async function getThread(existingId?: string) {
                  try {
                      // This logic duplicates above but handles conversational "please run tests"
                      if (fs.existsSync('test.sh')) {
-                         const { stdout, stderr } = await runCommand('bash test.sh', runId || '');
+                         const { stdout, stderr } = await runCommand('bash test.sh', runId || '', false, 'agent');
                          return { text: `Test Results:\n${stdout}\n${stderr}` };
                      }
                      if (fs.existsSync('package.json')) {
-                         const { stdout, stderr } = await runCommand('npm test', runId || '');
+                         const { stdout, stderr } = await runCommand('npm test', runId || '', false, 'agent');
                          return { text: `Test Results:\n${stdout}\n${stderr}` };
                      }
                      return { text: 'No test suite found (package.json or test.sh missing).' };
                 } catch (e: any) {
+                    if (e instanceof PolicyViolationError) return { text: e.message };
                     return { text: `Test Execution Failed:\n${e.message}\n${e.stdout}\n${e.stderr}` };
                 }
             }
@@ -315,6 +556,7 @@ async function getThread(existingId?: string) {
 
   const options = {
     sandboxMode: 'workspace-write' as const,
+    ...(CODEX_MODEL ? { model: CODEX_MODEL } : {}),
   };
 
   if (existingId && codex) {
@@ -331,8 +573,109 @@ async function getThread(existingId?: string) {
   return await codex!.startThread(options);
 }
 
+// Translate a single Codex turn into incremental worker events.
+// The SDK reports items (messages, reasoning, commands) with their full text so far,
+// so we keep track of what has already been emitted per item and only yield the delta.
+// Resolves with the final agent message and the turn's token usage.
+// Codex executes commands itself: those it runs through a shell are held back by the command gate's
+// wrappers, and every command the policy denies (including ones that bypass the wrappers, which are
+// only caught as they start) ends the turn with a PolicyViolationError.
+async function* streamThreadRun(activeThread: any, text: string, runId: string, signal: AbortSignal, policy: CommandPolicy): AsyncGenerator<WorkerStreamEvent, { finalText: string; usage: TokenUsage }> {
+    if (isMock) {
+        // The mock thread has no streaming API; replay its response as whitespace-delimited tokens.
+        const result = await activeThread.run(text, runId);
+        const finalText: string = result.text || '';
+        for (const token of finalText.split(/(\s+)/)) {
+            if (token.length > 0) {
+                yield { type: 'token', delta: token };
+            }
+        }
+        return { finalText, usage: { ...NO_USAGE } };
+    }
+
+    const { events } = await activeThread.runStreamed(text, { signal });
+    const emitted = new Map<string, string>();
+    let finalText = '';
+    let usage = { ...NO_USAGE };
+
+    for await (const event of events) {
+        if (event.type === 'turn.completed') {
+            usage = toTokenUsage(event.usage);
+            continue;
+        }
+        if (event.type === 'turn.failed') {
+            throw new Error(event.error?.message || 'Codex turn failed');
+        }
+        if (event.type === 'error') {
+            throw new Error(event.message || 'Codex stream error');
+        }
+        if (event.type !== 'item.started' && event.type !== 'item.updated' && event.type !== 'item.completed') {
+            continue;
+        }
+
+        const item = event.item;
+        if (item.type === 'agent_message' || item.type === 'reasoning') {
+            const current: string = item.text || '';
+            const previous = emitted.get(item.id) || '';
+            if (current.length > previous.length && current.startsWith(previous)) {
+                yield { type: item.type === 'agent_message' ? 'token' : 'reasoning', delta: current.slice(previous.length) };
+            }
+            emitted.set(item.id, current);
+            if (item.type === 'agent_message' && event.type === 'item.completed') {
+                finalText = current;
+            }
+        } else if (item.type === 'command_execution' && event.type !== 'item.updated') {
+            if (event.type === 'item.started') {
+                const decision = evaluateCommand(policy, item.command);
+                if (!decision.allowed) {
+                    recordPolicyViolation(runId, item.command, decision, 'sdk');
+                    throw new PolicyViolationError(redactSecrets(item.command), decision.reason || 'denied');
+                }
+            }
+            yield {
+                type: 'tool-call',
+                callId: item.id,
+                tool: 'shell',
+                status: event.type === 'item.started' ? 'started' : (item.status === 'failed' ? 'failed' : 'completed'),
+                command: redactSecrets(item.command),
+                exitCode: item.exit_code,
+                output: event.type === 'item.completed' && item.aggregated_output !== undefined ? redactSecrets(item.aggregated_output) : undefined
+            };
+        } else if (item.type === 'mcp_tool_call' && event.type !== 'item.updated') {
+            yield {
+                type: 'tool-call',
+                callId: item.id,
+                tool: `${item.server}.${item.tool}`,
+                status: event.type === 'item.started' ? 'started' : (item.status === 'failed' ? 'failed' : 'completed')
+            };
+        }
+    }
+
+    return { finalText, usage };
+}
+
+// Snapshot the working tree before a turn. Changes left staged by earlier runs are part
+// of the snapshot, so each run's diff only covers what that run changed.
+async function snapshotWorkingTree(runId: string): Promise<string> {
+    await runCommand('git add -A', runId, true);
+    const { stdout, exitCode } = await runCommand('git write-tree', runId, true);
+    return exitCode === 0 ? stdout.trim() : '';
+}
+
+// Stage all changes and compute the diff + outputs manifest for a finished turn
+async function finalizeRun(runId: string, gitCommit: string, startTree: string): Promise<string> {
+    // Stage changes to capture new files in diff
+    await runCommand('git add -A', runId);
+    const { stdout: diff } = await runCommand(`git diff --cached ${startTree}`, runId);
+
+    // Generate outputs manifest
+    await generateOutputsManifest(runId, gitCommit, startTree);
+
+    return diff;
+}
+
 fastify.post<{ Body: RunBody }>('/run', async (request, reply) => {
-  const { text, runId } = request.body;
+  const { text, runId, stream, commandPolicy, testConfig, artifactConfig } = request.body;
 
   if (!text) {
     return reply.status(400).send({ error: 'Missing text in body' });
@@ -352,7 +695,19 @@ fastify.post<{ Body: RunBody }>('/run', async (request, reply) => {
   } catch (err) {
     request.log.error({ err }, `Failed to chdir to ${REPO_PATH}`);
   }
-    
+
+  if (stream) {
+    // We own the raw response from here on; Fastify must not try to serialize a reply
+    reply.hijack();
+    reply.raw.setHeader('Content-Type', 'application/x-ndjson');
+    reply.raw.setHeader('Cache-Control', 'no-cache');
+    reply.raw.flushHeaders();
+  }
+
+  const write = (event: WorkerStreamEvent) => {
+      reply.raw.write(JSON.stringify(event) + '\n');
+  };
+
   try {
     // Capture git commit hash
     let gitCommit = '';
@@ -363,53 +718,317 @@ fastify.post<{ Body: RunBody }>('/run', async (request, reply) => {
         request.log.warn({ err: gitErr }, 'Failed to get git commit hash');
     }
 
+    // The ref the workspace was cloned from, or the checked out branch if none was configured
+    let baseRef = process.env.BASE_REF || '';
+    if (!baseRef) {
+        const { stdout, exitCode } = await runCommand('git rev-parse --abbrev-ref HEAD', safeRunId, true);
+        baseRef = exitCode === 0 ? stdout.trim() : '';
+    }
+
+    const startTree = await snapshotWorkingTree(safeRunId);
+
     // Get or resume thread
     const envThreadId = process.env.CODEX_THREAD_ID;
     thread = await getThread(envThreadId || thread?.id);
     
     // Run Codex with timeout
-    request.log.info({ msg: 'Running Codex', text });
+    request.log.info({ msg: 'Running Codex', text, stream: !!stream });
     const start = Date.now();
-    // Pass runId to thread.run if it supports it (Mock thread does)
-    const runPromise = thread.run(text, safeRunId);
-    const timeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Codex run timed out after 60 seconds')), 60000)
-    );
+    const controller = new AbortController();
+    const policy = commandPolicy || DEFAULT_COMMAND_POLICY;
+    // Streamed to the client as they happen, otherwise reported with the result
+    const policyViolations: PolicyViolationEvent[] = [];
+    activeRun = {
+        runId: safeRunId,
+        controller,
+        policy,
+        onViolation: (event) => stream ? write(event) : policyViolations.push(event)
+    };
+    if (!isMock) setGatePolicy(policy);
+    let finalText = '';
+    let usage = { ...NO_USAGE };
+    let cancelled = false;
 
-    const result = await Promise.race([runPromise, timeoutPromise]) as any;
+    try {
+        await withSpan('codex.turn', { runId: safeRunId, stream: !!stream, mock: isMock }, async () => {
+            // Both modes consume the event stream so every command Codex starts is checked against the policy
+            const deadline = start + RUN_TIMEOUT_MS;
+            const events = streamThreadRun(thread, text, safeRunId, controller.signal, policy);
+            while (true) {
+                const next = await withTimeout(events.next(), deadline - Date.now(), controller.signal);
+                if (next.done) {
+                    finalText = next.value.finalText;
+                    usage = next.value.usage;
+                    break;
+                }
+                if (!stream) continue;
+                if (next.value.type === 'token') {
+                    finalText += next.value.delta;
+                }
+                write(next.value);
+            }
+        });
+    } catch (err) {
+        if (err instanceof PolicyViolationError || err instanceof RunTimeoutError) {
+            // Stop the turn and anything it started before the next run gets the working tree;
+            // the run fails rather than counting as cancelled
+            controller.abort();
+            throw err;
+        }
+        if (!controller.signal.aborted) throw err;
+        // Keep whatever the turn produced so far; the working tree is still diffed below
+        cancelled = true;
+        request.log.info({ msg: 'Codex run cancelled', runId: safeRunId });
+    } finally {
+        activeRun = null;
+    }
     const duration = Date.now() - start;
-    const finalText = result.text || result.finalResponse || '';
 
-    request.log.info({ msg: 'Thread execution result', result });
+    const diff = await finalizeRun(safeRunId, gitCommit, startTree);
 
-    // Compute diff
-    // Stage changes to capture new files in diff
-    await runCommand('git add -A', safeRunId);
-    const { stdout: diff } = await runCommand('git diff --cached', safeRunId);
+    // Tests run against the turn's changes; a cancelled turn is not tested
+    let tests: { report: TestReport; output: string } | null = null;
+    if (testConfig && !cancelled) {
+        tests = await runProjectTests(safeRunId, testConfig, policy);
+        request.log.info({ msg: 'Tests finished', status: tests.report.status, passed: tests.report.passed, failed: tests.report.failed });
+        if (stream) {
+            write({ type: 'test-result', report: tests.report });
+        }
+    }
 
-    // Generate outputs manifest
-    await generateOutputsManifest(safeRunId, gitCommit);
+    // After the tests, which often produce them (coverage, JUnit reports)
+    if (artifactConfig && artifactConfig.patterns.length > 0) {
+        await collectRunArtifacts(safeRunId, artifactConfig);
+    }
 
     request.log.info({
         msg: 'Codex run completed',
+        cancelled,
+        usage,
         duration,
         diffSize: diff.length,
         diff: diff.length < 1000 ? diff : diff.substring(0, 1000) + '...'
     });
 
-    return {
+    const result = {
       finalText: finalText,
       diff: diff,
       threadId: thread.id,
-      gitCommit: gitCommit
+      gitCommit: gitCommit,
+      baseRef: baseRef,
+      cancelled,
+      usage,
+      model: CODEX_MODEL || null,
+      ...(tests ? { testReport: tests.report, testOutput: tests.output } : {}),
+      ...(stream ? {} : { policyViolations }),
+      spans: collectedSpans()
     };
 
+    if (stream) {
+        write({ type: 'result', ...result });
+        reply.raw.end();
+        return;
+    }
+    return result;
+
   } catch (error) {
     request.log.error({ err: error }, 'Worker execution failed');
+    if (stream) {
+        write({ type: 'error', error: 'Internal Server Error', details: (error as Error).message, spans: collectedSpans() });
+        reply.raw.end();
+        return;
+    }
     return reply.status(500).send({ error: 'Internal Server Error', details: (error as Error).message });
   }
 });
 
+// Abort the Codex turn of an in-flight run and kill any commands it started.
+// The /run request then completes with `cancelled: true`.
+fastify.post<{ Params: { runId: string } }>('/runs/:runId/cancel', async (request, reply) => {
+  const { runId } = request.params;
+
+  if (!activeRun || activeRun.runId !== runId) {
+    return reply.status(404).send({ error: 'Run is not active' });
+  }
+
+  request.log.info({ msg: 'Cancelling run', runId });
+  activeRun.controller.abort();
+  return { runId, cancelled: true };
+});
+
+interface CommitBody {
+  branch: string;
+  // The run's own diff (runs.diff); the index also holds earlier runs' changes, so it is not committed as is
+  diff: string;
+  message: string;
+  authorName: string;
+  authorEmail: string;
+}
+
+// Conservative subset of git's ref rules; also keeps the name safe to interpolate into commands
+const BRANCH_NAME_PATTERN = /^(?!-)(?!.*\.\.)(?!.*\/\/)(?!\/)(?!.*\/$)(?!.*\.lock$)[A-Za-z0-9._\/-]+$/;
+
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Commit a run's diff on top of HEAD onto a new local branch without moving HEAD or touching the
+// index, so the working tree and the thread carry on exactly as before.
+fastify.post<{ Params: { runId: string }; Body: CommitBody }>('/runs/:runId/commit', async (request, reply) => {
+  const { runId } = request.params;
+  const { branch, diff, message, authorName, authorEmail } = request.body || ({} as CommitBody);
+
+  if (!branch || !BRANCH_NAME_PATTERN.test(branch)) {
+    return reply.status(400).send({ error: 'Invalid branch name' });
+  }
+  if (!message || !authorName || !authorEmail) {
+    return reply.status(400).send({ error: 'Missing message or author' });
+  }
+  if (!diff) {
+    return reply.status(400).send({ error: 'Missing diff' });
+  }
+  if (activeRun) {
+    return reply.status(409).send({ error: 'A run is in progress' });
+  }
+
+  process.chdir(REPO_PATH);
+
+  const { exitCode: branchExists } = await runCommand(`git rev-parse --verify --quiet ${shellQuote(`refs/heads/${branch}`)}`, runId, true);
+  if (branchExists === 0) {
+    return reply.status(409).send({ error: `Branch ${branch} already exists` });
+  }
+
+  const messageFile = path.join('/tmp', `commit-msg-${runId}`);
+  const patchFile = path.join('/tmp', `commit-${runId}.patch`);
+  // A scratch index seeded from HEAD, so only this run's diff ends up in the tree
+  const indexFile = path.join('/tmp', `commit-index-${runId}`);
+  const withIndex = `GIT_INDEX_FILE=${shellQuote(indexFile)}`;
+  fs.writeFileSync(messageFile, message);
+  fs.writeFileSync(patchFile, diff.endsWith('\n') ? diff : `${diff}\n`);
+  try {
+    const { stdout: head, exitCode: headExit } = await runCommand('git rev-parse --verify --quiet HEAD', runId, true);
+    await runCommand(`${withIndex} git read-tree ${headExit === 0 ? head.trim() : '--empty'}`, runId);
+
+    // Diffs are relative to the repo root
+    const { exitCode: applied, stderr } = await runCommand(`${withIndex} git -C "$(git rev-parse --show-toplevel)" apply --cached ${shellQuote(patchFile)}`, runId, true);
+    if (applied !== 0) {
+      return reply.status(409).send({
+        error: 'Run diff does not apply to HEAD; it builds on changes of earlier runs that have not been accepted',
+        details: stderr
+      });
+    }
+
+    const { stdout: tree } = await runCommand(`${withIndex} git write-tree`, runId);
+    const parent = headExit === 0 ? `-p ${head.trim()}` : '';
+    const identity = `-c user.name=${shellQuote(authorName)} -c user.email=${shellQuote(authorEmail)}`;
+    const { stdout: commit } = await runCommand(`git ${identity} commit-tree ${tree.trim()} ${parent} -F ${shellQuote(messageFile)}`, runId);
+    await runCommand(`git update-ref ${shellQuote(`refs/heads/${branch}`)} ${commit.trim()}`, runId);
+
+    request.log.info({ msg: 'Committed run changes', runId, branch, commit: commit.trim() });
+    return { runId, branch, commit: commit.trim() };
+  } finally {
+    fs.rmSync(messageFile, { force: true });
+    fs.rmSync(patchFile, { force: true });
+    fs.rmSync(indexFile, { force: true });
+  }
+});
+
+interface AcceptBody {
+  message: string;
+  authorName: string;
+  authorEmail: string;
+}
+
+// Commit everything in the working tree onto the checked out branch
+fastify.post<{ Params: { runId: string }; Body: AcceptBody }>('/runs/:runId/accept', async (request, reply) => {
+  const { runId } = request.params;
+  const { message, authorName, authorEmail } = request.body || ({} as AcceptBody);
+
+  if (!message || !authorName || !authorEmail) {
+    return reply.status(400).send({ error: 'Missing message or author' });
+  }
+  if (activeRun) {
+    return reply.status(409).send({ error: 'A run is in progress' });
+  }
+
+  process.chdir(REPO_PATH);
+  await runCommand('git add -A', runId);
+  const { exitCode: clean } = await runCommand('git diff --cached --quiet', runId, true);
+  if (clean === 0) {
+    return reply.status(409).send({ error: 'No changes to accept' });
+  }
+
+  const messageFile = path.join('/tmp', `accept-msg-${runId}`);
+  fs.writeFileSync(messageFile, message);
+  try {
+    const identity = `-c user.name=${shellQuote(authorName)} -c user.email=${shellQuote(authorEmail)}`;
+    await runCommand(`git ${identity} commit -q -F ${shellQuote(messageFile)}`, runId);
+  } finally {
+    fs.rmSync(messageFile, { force: true });
+  }
+
+  const { stdout: commit } = await runCommand('git rev-parse HEAD', runId);
+  request.log.info({ msg: 'Accepted workspace changes', runId, commit: commit.trim() });
+  return { runId, commit: commit.trim() };
+});
+
+// Throw away all changes made since `commit` (normally the starting commit of a run)
+fastify.post<{ Params: { runId: string }; Body: { commit: string } }>('/runs/:runId/reset', async (request, reply) => {
+  const { runId } = request.params;
+  const { commit } = request.body || ({} as { commit: string });
+
+  if (!commit || !/^[0-9a-f]{7,64}$/.test(commit)) {
+    return reply.status(400).send({ error: 'Invalid commit' });
+  }
+  if (activeRun) {
+    return reply.status(409).send({ error: 'A run is in progress' });
+  }
+
+  process.chdir(REPO_PATH);
+  const { exitCode } = await runCommand(`git cat-file -e ${commit}^{commit}`, runId, true);
+  if (exitCode !== 0) {
+    return reply.status(409).send({ error: `Commit ${commit} not found in workspace` });
+  }
+
+  // Reset the whole clone, not just the subdirectory the worker runs in
+  await runCommand(`git reset -q --hard ${commit}`, runId);
+  await runCommand('git clean -q -fd :/', runId);
+
+  request.log.info({ msg: 'Reset workspace', runId, commit });
+  return { runId, commit };
+});
+
+// Undo a single run's diff, leaving changes from other runs in place
+fastify.post<{ Params: { runId: string }; Body: { diff: string } }>('/runs/:runId/revert', async (request, reply) => {
+  const { runId } = request.params;
+  const { diff } = request.body || ({} as { diff: string });
+
+  if (!diff) {
+    return reply.status(400).send({ error: 'Missing diff' });
+  }
+  if (activeRun) {
+    return reply.status(409).send({ error: 'A run is in progress' });
+  }
+
+  process.chdir(REPO_PATH);
+  await runCommand('git add -A', runId);
+
+  // Diffs are relative to the repo root; `git diff` output always ends with a newline
+  const patchFile = path.join('/tmp', `revert-${runId}.patch`);
+  fs.writeFileSync(patchFile, diff.endsWith('\n') ? diff : `${diff}\n`);
+  try {
+    const { exitCode, stderr } = await runCommand(`git -C "$(git rev-parse --show-toplevel)" apply -R --index ${shellQuote(patchFile)}`, runId, true);
+    if (exitCode !== 0) {
+      return reply.status(409).send({ error: 'Run diff no longer applies cleanly', details: stderr });
+    }
+  } finally {
+    fs.rmSync(patchFile, { force: true });
+  }
+
+  request.log.info({ msg: 'Reverted run diff', runId });
+  return { runId, reverted: true };
+});
+
 const start = async () => {
   try {
     await fastify.listen({ port: 7000, host: '0.0.0.0' });
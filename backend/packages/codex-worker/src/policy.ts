@@ -0,0 +1,246 @@
+import * as path from 'path';
+
+// Same shape as the orchestrator's commandPolicySchema; the orchestrator sends
+// the project's policy with every /run request.
+export interface PolicyRule {
+  action: 'allow' | 'deny';
+  // Program name, compared with the basename of argv[0]
+  command: string;
+  // If set, argv[1] must be one of these for the rule to apply
+  subcommands?: string[];
+  // Allow rules only: every further argument must match one of these regexes
+  argPatterns?: string[];
+  // Allow rules only: no argument may match any of these regexes
+  forbiddenArgs?: string[];
+  // The command needs network access
+  network?: boolean;
+}
+
+export interface CommandPolicy {
+  // Applies to commands no rule matches
+  defaultAction: 'allow' | 'deny';
+  // When false, allow rules flagged `network` are violations too
+  allowNetwork?: boolean;
+  // Evaluated in order; the first rule whose command (and subcommand) matches decides
+  rules: PolicyRule[];
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  // The simple commands the command line consists of
+  commands: string[][];
+  network: boolean;
+  reason?: string;
+  // Index of the deciding rule, if any
+  rule?: number;
+}
+
+// The worker's previous hard-coded allowlist, as argv rules
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+  defaultAction: 'deny',
+  allowNetwork: true,
+  rules: [
+    // --output makes diff, log and show write to any file
+    { action: 'allow', command: 'git', subcommands: ['status', 'diff', 'log', 'show', 'add', 'commit', 'rev-parse', 'ls-files', 'grep', 'branch', 'checkout', 'switch', 'stash', 'restore', 'mv', 'rm', 'blame'], forbiddenArgs: ['^--output'] },
+    { action: 'allow', command: 'npm', subcommands: ['test', 't', 'run'] },
+    { action: 'allow', command: 'npm', subcommands: ['install', 'i', 'ci'], network: true },
+    { action: 'allow', command: 'pytest' },
+    { action: 'allow', command: 'bash', argPatterns: ['^[\\w./-]+\\.sh$'] },
+    { action: 'allow', command: 'cd' },
+    { action: 'allow', command: 'ls' },
+    { action: 'allow', command: 'cat' },
+    { action: 'allow', command: 'echo' },
+    { action: 'allow', command: 'pwd' },
+    { action: 'deny', command: 'curl', network: true },
+    { action: 'deny', command: 'wget', network: true },
+    { action: 'deny', command: 'rm' },
+    { action: 'deny', command: 'chmod' },
+    { action: 'deny', command: 'chown' },
+    { action: 'deny', command: 'sudo' }
+  ]
+};
+
+const SHELLS = ['bash', 'sh', 'zsh', 'dash'];
+const ENV_ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+const REDIRECTION = /^\d*(>>?|<<?|>&|<&|&>)(.*)$/;
+
+interface ParsedCommandLine {
+  commands: string[][];
+  // Command substitution or backticks: the actual commands cannot be known up front
+  substitution: boolean;
+  // Subshells `( )`, groups `{ }` and process substitution `<( )`/`>( )`, which the split below does not see into
+  grouping: boolean;
+}
+
+/**
+ * Split a shell command line into simple commands (at newlines, ;, &&, ||, | and &) and their argv,
+ * honouring quotes and escapes. Environment assignments and redirections are dropped.
+ */
+export function parseCommandLine(commandLine: string): ParsedCommandLine {
+  const commands: string[][] = [];
+  let argv: string[] = [];
+  let word = '';
+  let inWord = false;
+  let quoted = false;
+  let quote: '\'' | '"' | null = null;
+  let substitution = false;
+  let grouping = false;
+
+  const endWord = () => {
+    if (inWord) argv.push(word);
+    // `{` opens a group only as an unquoted word of its own
+    if (inWord && !quoted && word === '{') grouping = true;
+    word = '';
+    inWord = false;
+    quoted = false;
+  };
+  const endCommand = () => {
+    endWord();
+    if (argv.length > 0) commands.push(argv);
+    argv = [];
+  };
+
+  for (let i = 0; i < commandLine.length; i++) {
+    const char = commandLine[i];
+    if (quote === '\'') {
+      if (char === '\'') quote = null; else word += char;
+      continue;
+    }
+    if (char === '\\' && i + 1 < commandLine.length) {
+      // A backslash-newline continues the line and leaves nothing behind
+      if (commandLine[++i] !== '\n') {
+        word += commandLine[i];
+        inWord = true;
+      }
+      continue;
+    }
+    if (char === '`' || (char === '$' && commandLine[i + 1] === '(')) {
+      substitution = true;
+    }
+    if (quote === '"') {
+      if (char === '"') quote = null; else word += char;
+      continue;
+    }
+    if (char === '\'' || char === '"') {
+      quote = char;
+      inWord = true;
+      quoted = true;
+    } else if (char === '(' || char === ')') {
+      grouping = true;
+      word += char;
+      inWord = true;
+    } else if (char === '\n' || char === '\r' || char === ';' || char === '|' || (char === '&' && !/[<>]$/.test(word))) {
+      endCommand();
+      if (commandLine[i + 1] === char) i++;
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+  endCommand();
+
+  return {
+    commands: commands.map(stripShellSyntax).filter(command => command.length > 0),
+    substitution,
+    grouping
+  };
+}
+
+function stripShellSyntax(argv: string[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const redirection = argv[i].match(REDIRECTION);
+    if (redirection) {
+      // `> file` takes the next word as its target, `>file` and `2>&1` don't
+      if (!redirection[2]) i++;
+      continue;
+    }
+    if (result.length === 0 && ENV_ASSIGNMENT.test(argv[i])) continue;
+    result.push(argv[i]);
+  }
+  return result;
+}
+
+// `bash -c 'script'` (or -lc, -ec, ...) runs whatever the script contains
+function shellScript(argv: string[]): string | null {
+  if (!SHELLS.includes(path.basename(argv[0]))) return null;
+  const flag = argv.findIndex(arg => /^-[a-z]*c[a-z]*$/.test(arg));
+  return flag > 0 && flag + 1 < argv.length ? argv[flag + 1] : null;
+}
+
+function matches(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return false;
+  }
+}
+
+function evaluateArgv(policy: CommandPolicy, argv: string[]): Omit<PolicyDecision, 'commands'> {
+  const program = path.basename(argv[0]);
+  const index = policy.rules.findIndex(rule =>
+    rule.command === program && (!rule.subcommands || rule.subcommands.includes(argv[1]))
+  );
+
+  if (index < 0) {
+    // Name the subcommand when rules exist for the program but none covers it (git push)
+    const name = argv.length > 1 && policy.rules.some(rule => rule.command === program) ? `${program} ${argv[1]}` : program;
+    return policy.defaultAction === 'allow'
+      ? { allowed: true, network: false }
+      : { allowed: false, network: false, reason: `${name} is not allowed by the command policy` };
+  }
+
+  const rule = policy.rules[index];
+  const network = !!rule.network;
+  if (rule.action === 'deny') {
+    return { allowed: false, network, rule: index, reason: `${program} is denied by the command policy` };
+  }
+
+  const args = argv.slice(rule.subcommands ? 2 : 1);
+  const forbidden = args.find(arg => (rule.forbiddenArgs || []).some(pattern => matches(pattern, arg)));
+  if (forbidden !== undefined) {
+    return { allowed: false, network, rule: index, reason: `Argument ${forbidden} of ${program} is forbidden` };
+  }
+  if (rule.argPatterns) {
+    const unexpected = args.find(arg => !rule.argPatterns!.some(pattern => matches(pattern, arg)));
+    if (unexpected !== undefined) {
+      return { allowed: false, network, rule: index, reason: `Argument ${unexpected} of ${program} is not permitted` };
+    }
+  }
+  if (network && policy.allowNetwork === false) {
+    return { allowed: false, network, rule: index, reason: `${program} needs network access, which the command policy disables` };
+  }
+  return { allowed: true, network, rule: index };
+}
+
+/**
+ * Decide whether a command line may run. Every simple command in it must be allowed;
+ * shell wrappers (`bash -c`) are evaluated by their script and command substitution is refused.
+ */
+export function evaluateCommand(policy: CommandPolicy, commandLine: string, depth = 0): PolicyDecision {
+  const parsed = parseCommandLine(commandLine);
+  if (parsed.substitution) {
+    return { allowed: false, commands: parsed.commands, network: false, reason: 'Command substitution is not allowed' };
+  }
+  if (parsed.grouping) {
+    return { allowed: false, commands: parsed.commands, network: false, reason: 'Subshells, command groups and process substitution are not allowed' };
+  }
+
+  let network = false;
+  const commands: string[][] = [];
+  for (const argv of parsed.commands) {
+    const script = depth < 3 ? shellScript(argv) : null;
+    const decision = script !== null
+      ? evaluateCommand(policy, script, depth + 1)
+      : { ...evaluateArgv(policy, argv), commands: [argv] };
+
+    commands.push(...decision.commands);
+    network = network || decision.network;
+    if (!decision.allowed) {
+      return { ...decision, commands, network };
+    }
+  }
+  return { allowed: true, commands, network };
+}
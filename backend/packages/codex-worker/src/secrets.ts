@@ -0,0 +1,36 @@
+import * as fs from 'fs';
+
+// Set by the workspace manager: names of env vars and paths of files that hold project secrets
+const SECRET_ENV = (process.env.ARP_SECRET_ENV || '').split(',').filter(name => name.length > 0);
+const SECRET_FILES = (process.env.ARP_SECRET_FILES || '').split(',').filter(file => file.length > 0);
+
+// Shorter values would mangle ordinary output without protecting much
+const MIN_REDACTED_LENGTH = 4;
+
+function secretValues(): string[] {
+    const values = SECRET_ENV.map(name => process.env[name] || '');
+    for (const file of SECRET_FILES) {
+        try {
+            // Files are written just after the container starts, so read them on demand
+            const content = fs.readFileSync(file, 'utf8');
+            values.push(content, content.trim());
+        } catch {
+            // Not written (yet)
+        }
+    }
+    // Longest first, so a secret containing another is replaced whole
+    return Array.from(new Set(values))
+        .filter(value => value.length >= MIN_REDACTED_LENGTH)
+        .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Replace every project secret value in `text` with [REDACTED].
+ */
+export function redactSecrets(text: string): string {
+    let result = text;
+    for (const value of secretValues()) {
+        result = result.split(value).join('[REDACTED]');
+    }
+    return result;
+}
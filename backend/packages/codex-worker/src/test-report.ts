@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Same shape as the orchestrator's testConfigSchema
+export interface TestConfig {
+  command: string;
+  format: 'tap' | 'junit';
+  // JUnit XML file written by the command, relative to the working directory; stdout if omitted
+  reportPath?: string;
+  timeoutSeconds?: number;
+}
+
+export interface TestCase {
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  message?: string;
+}
+
+export interface TestReport {
+  format: 'tap' | 'junit';
+  command: string;
+  exitCode: number;
+  durationMs: number;
+  // `error`: the command timed out or produced no parseable results
+  status: 'passed' | 'failed' | 'error';
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+  cases: TestCase[];
+  error?: string;
+}
+
+export type ParsedTests = Pick<TestReport, 'passed' | 'failed' | 'skipped' | 'total' | 'cases'>;
+
+// Reports keep at most this many individual cases; the counts always cover all of them
+const MAX_CASES = 500;
+
+function summarize(cases: TestCase[]): ParsedTests {
+  return {
+    passed: cases.filter(c => c.status === 'passed').length,
+    failed: cases.filter(c => c.status === 'failed').length,
+    skipped: cases.filter(c => c.status === 'skipped').length,
+    total: cases.length,
+    cases: cases.slice(0, MAX_CASES)
+  };
+}
+
+// Top-level test points only; indented lines are subtests already summarized by their parent
+const TAP_TEST_POINT = /^(not )?ok\b(?:\s+\d+)?(?:\s*-)?\s*([^#]*?)\s*(?:#\s*(skip|todo)\S*\s*(.*))?$/i;
+
+/**
+ * Parse TAP (versions 12-14). TODO tests are reported as skipped, as TAP does not count them as failures;
+ * `Bail out!` adds a failed case.
+ */
+export function parseTap(output: string): ParsedTests {
+  const cases: TestCase[] = [];
+  for (const line of output.split('\n')) {
+    const bail = line.match(/^Bail out!\s*(.*)$/);
+    if (bail) {
+      cases.push({ name: 'Bail out!', status: 'failed', message: bail[1] || undefined });
+      continue;
+    }
+    const match = line.match(TAP_TEST_POINT);
+    if (!match) continue;
+
+    const [, notOk, name, directive, reason] = match;
+    const status = directive ? 'skipped' : notOk ? 'failed' : 'passed';
+    cases.push({ name: name || `test ${cases.length + 1}`, status, ...(reason ? { message: reason } : {}) });
+  }
+  return summarize(cases);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  return match ? decodeXml(match[1] ?? match[2]) : undefined;
+}
+
+/**
+ * Parse JUnit XML (any nesting of <testsuites>/<testsuite>): each <testcase> with a <failure> or
+ * <error> failed, one with <skipped> was skipped.
+ */
+export function parseJUnit(xml: string): ParsedTests {
+  const cases: TestCase[] = [];
+  const testcase = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+  let match: RegExpExecArray | null;
+  while ((match = testcase.exec(xml)) !== null) {
+    const [, attributes, body = ''] = match;
+    const className = attribute(attributes, 'classname');
+    const name = attribute(attributes, 'name') || `test ${cases.length + 1}`;
+    const failure = body.match(/<(failure|error)\b([^>]*)/);
+    const status = failure ? 'failed' : /<skipped\b/.test(body) ? 'skipped' : 'passed';
+    const message = failure ? attribute(failure[2], 'message') : undefined;
+    cases.push({ name: className ? `${className} ${name}` : name, status, ...(message ? { message } : {}) });
+  }
+  return summarize(cases);
+}
+
+/**
+ * Read the JUnit report the test command wrote, `reportPath` being relative to `root`. Paths, and
+ * symlinks created by the run, that lead outside `root` are refused.
+ */
+export function readTestReport(root: string, reportPath: string): string {
+  const realRoot = fs.realpathSync(root);
+  let file: string;
+  try {
+    file = fs.realpathSync(path.resolve(realRoot, reportPath));
+  } catch {
+    throw new Error(`JUnit report ${reportPath} could not be read`);
+  }
+
+  const relative = path.relative(realRoot, file);
+  if (relative === '' || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`JUnit report ${reportPath} is outside the working directory`);
+  }
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch {
+    throw new Error(`JUnit report ${reportPath} could not be read`);
+  }
+}
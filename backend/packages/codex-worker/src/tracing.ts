@@ -0,0 +1,83 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+
+type SpanAttributes = Record<string, string | number | boolean>;
+
+// Same shape as the orchestrator's SpanData; the worker hands its spans back
+// to the orchestrator, which exports them together with its own.
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  service: string;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: SpanAttributes;
+  status: 'ok' | 'error';
+  error?: string;
+}
+
+interface TraceContext {
+  traceId: string;
+  spanId: string;
+  // Shared by every span of the request, in completion order
+  spans: SpanData[];
+}
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+const CLOCK_OFFSET_NS = BigInt(Date.now()) * BigInt(1e6) - process.hrtime.bigint();
+
+const storage = new AsyncLocalStorage<TraceContext>();
+
+function nowUnixNano(): bigint {
+  return process.hrtime.bigint() + CLOCK_OFFSET_NS;
+}
+
+/**
+ * Join the caller's trace for the rest of the request, if it sent a valid W3C traceparent header.
+ */
+export function enterTrace(traceparent: string | string[] | undefined) {
+  if (typeof traceparent !== 'string') return;
+  const match = traceparent.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match) return;
+  storage.enterWith({ traceId: match[1], spanId: match[2], spans: [] });
+}
+
+/**
+ * Run `fn` in a child span of the current one. Without a trace this just runs `fn`.
+ */
+export async function withSpan<T>(name: string, attributes: SpanAttributes, fn: () => Promise<T>): Promise<T> {
+  const parent = storage.getStore();
+  if (!parent) return fn();
+
+  const context: TraceContext = { traceId: parent.traceId, spanId: randomBytes(8).toString('hex'), spans: parent.spans };
+  const start = nowUnixNano();
+  let error: string | undefined;
+  try {
+    return await storage.run(context, fn);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+    throw err;
+  } finally {
+    parent.spans.push({
+      traceId: context.traceId,
+      spanId: context.spanId,
+      parentSpanId: parent.spanId,
+      name,
+      service: 'codex-worker',
+      startTimeUnixNano: start.toString(),
+      endTimeUnixNano: nowUnixNano().toString(),
+      attributes,
+      status: error ? 'error' : 'ok',
+      error
+    });
+  }
+}
+
+/**
+ * Spans finished so far in the current request.
+ */
+export function collectedSpans(): SpanData[] {
+  return storage.getStore()?.spans || [];
+}
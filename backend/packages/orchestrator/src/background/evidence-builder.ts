@@ -1,11 +1,16 @@
-import { Database } from '@codex/shared';
-import { WorkspaceManager } from '@codex/workspace-manager';
-import { Kysely } from 'kysely';
+import { Database, WorkspacesTable } from '@codex/shared';
+import { EVIDENCE_DIR, evidenceVolumeName, WorkspaceManager } from '@codex/workspace-manager';
+import { Kysely, Selectable } from 'kysely';
 import fs from 'fs';
 import path from 'path';
 import { exec } from 'child_process';
 import util from 'util';
 import { logger } from '../logger';
+import { metrics } from '../metrics';
+import { tracer } from '../tracing';
+import { validArtifactEntries } from '../lib/artifacts';
+import { loadSigningKey, signBundleDirectory, SigningKey } from '../lib/evidence-integrity';
+import { artifactsPrefix, bundleKey, EvidenceStore } from '../lib/evidence-store';
 import { Readable } from 'stream';
 import { pipeline } from 'stream/promises';
 
@@ -14,21 +19,61 @@ const execAsync = util.promisify(exec);
 export class EvidenceBuilder {
   private db: Kysely<Database>;
   private workspaceManager: WorkspaceManager;
+  private evidenceStore: EvidenceStore;
+  // Bundles are assembled here before going to the store (the store itself when it is local)
   private evidenceRoot: string;
+  readonly signingKey: SigningKey;
 
-  constructor(db: Kysely<Database>, workspaceManager: WorkspaceManager) {
+  constructor(db: Kysely<Database>, workspaceManager: WorkspaceManager, evidenceStore: EvidenceStore) {
     this.db = db;
     this.workspaceManager = workspaceManager;
+    this.evidenceStore = evidenceStore;
     this.evidenceRoot = process.env.EVIDENCE_ROOT || path.resolve(__dirname, '../../../../evidence');
     
     // Ensure evidence root exists
     if (!fs.existsSync(this.evidenceRoot)) {
       fs.mkdirSync(this.evidenceRoot, { recursive: true });
     }
+
+    this.signingKey = loadSigningKey(this.evidenceRoot);
+  }
+
+  /**
+   * Copy the run's evidence directory to `tarDest` as a tar: from the workspace container while it runs,
+   * else (cold workspace, or the container stopped mid-copy) from the workspace's evidence volume.
+   */
+  private async fetchEvidenceArchive(workspace: Selectable<WorkspacesTable>, containerPath: string, tarDest: string) {
+    if (workspace.container_id) {
+      try {
+        logger.info({ workspaceId: workspace.id, containerPath }, 'Fetching archive from container');
+        const tarStream = await this.workspaceManager.getContainerArchive(workspace.container_id, containerPath);
+        await pipeline(tarStream, fs.createWriteStream(tarDest));
+        return;
+      } catch (err) {
+        if (!workspace.volume_name) throw err;
+        logger.warn({ workspaceId: workspace.id, err }, 'Workspace container unavailable; reading evidence from its volume');
+      }
+    }
+
+    if (!workspace.volume_name) {
+      throw new Error(`Workspace ${workspace.id} has no container and no volume left to read evidence from`);
+    }
+    logger.info({ workspaceId: workspace.id, containerPath }, 'Fetching archive from workspace volume');
+    // Workspaces created before evidence had a volume of their own have nothing to read here
+    const tarStream = await this.workspaceManager.getVolumeArchive(
+      evidenceVolumeName(workspace.volume_name),
+      EVIDENCE_DIR,
+      containerPath,
+      workspace.image_name || undefined
+    );
+    await pipeline(tarStream, fs.createWriteStream(tarDest));
   }
 
   async buildBundle(runId: string) {
     logger.info({ runId }, 'Starting evidence bundle build');
+    const stopTimer = metrics.startTimer('arp_evidence_build_duration_seconds');
+    // Started from a finished run, so this joins the run's trace
+    const span = tracer.startSpan('evidence.build', { runId });
 
     try {
       // 1. Fetch run & workspace data
@@ -48,11 +93,8 @@ export class EvidenceBuilder {
         .where('id', '=', run.workspace_id)
         .executeTakeFirst();
 
-      if (!workspace || !workspace.container_id) {
-         // Even if workspace is cold/gone, we might want to handle this gracefully if we had persistence.
-         // But for now, we assume we need the container to pull files.
-         // If container is gone, we fail.
-         throw new Error(`Workspace container not found for run ${runId}`);
+      if (!workspace) {
+         throw new Error(`Workspace not found for run ${runId}`);
       }
 
       // 2. Setup temp directories
@@ -69,12 +111,9 @@ export class EvidenceBuilder {
       // 3. Get container archive
       // We expect evidence at /workspace/evidence/<runId>
       // Docker cp behavior: copying /path/to/dir returns a tar containing that dir.
-      const containerPath = `/workspace/evidence/${runId}`;
-      logger.info({ runId, containerPath }, 'Fetching archive from container');
-      
-      const tarStream = await this.workspaceManager.getContainerArchive(workspace.container_id, containerPath);
+      const containerPath = `${EVIDENCE_DIR}/${runId}`;
       const tarDest = path.join(tempDir, 'evidence.tar');
-      await pipeline(tarStream, fs.createWriteStream(tarDest));
+      await this.fetchEvidenceArchive(workspace, containerPath, tarDest);
 
       // 4. Extract tar
       // tar -xf evidence.tar -C extractDir
@@ -130,11 +169,28 @@ export class EvidenceBuilder {
           fs.writeFileSync(path.join(bundleDir, 'diff.patch'), run.diff);
       }
 
-      // 7. Zip it up
-      // cd temp/bundle && zip -r ../../<runId>.zip .
+      // Connections the egress proxy refused while the run was active
+      const blockedEgress = await this.db
+        .selectFrom('egress_events')
+        .select(['occurred_at', 'method', 'host', 'port', 'reason'])
+        .where('workspace_id', '=', run.workspace_id)
+        .where('occurred_at', '>=', run.started_at)
+        .where('occurred_at', '<=', run.finished_at || new Date())
+        .orderBy('id')
+        .execute();
+      if (blockedEgress.length > 0) {
+          const lines = blockedEgress.map(event => JSON.stringify({ ts: event.occurred_at, method: event.method, host: event.host, port: event.port, reason: event.reason }));
+          fs.writeFileSync(path.join(bundleDir, 'egress_blocked.jsonl'), lines.join('\n') + '\n');
+      }
+
+      // 7. Sign: every file written above is hashed into MANIFEST.json, which is signed into MANIFEST.sig
+      signBundleDirectory(bundleDir, runId, this.signingKey);
+
+      // 8. Zip it up
+      // cd temp/bundle && zip -r ../<runId>.zip .
       // Output file
       const zipFileName = `${runId}.zip`;
-      const zipFilePath = path.join(this.evidenceRoot, zipFileName);
+      const zipFilePath = path.join(tempDir, zipFileName);
       
       // We want the zip to contain the folder <runId>/...
       // So we should zip from tempDir/bundle directory which contains <runId> directory? 
@@ -142,24 +198,64 @@ export class EvidenceBuilder {
       // So if we zip from tempDir/bundle, we get runId/... in the zip.
       
       await execAsync(`cd ${path.join(tempDir, 'bundle')} && zip -r ${zipFilePath} .`);
+      const zipKey = bundleKey(runId);
+      await this.evidenceStore.put(zipKey, zipFilePath, 'application/zip');
+
+      // Store the artifacts unzipped as well, so they can be downloaded one at a time
+      let artifacts: ReturnType<typeof validArtifactEntries> = [];
+      let artifactsKey: string | null = null;
+      const manifestFile = path.join(bundleDir, 'outputs.json');
+      if (fs.existsSync(manifestFile) && fs.existsSync(path.join(bundleDir, 'artifacts'))) {
+          try {
+              artifacts = validArtifactEntries(JSON.parse(fs.readFileSync(manifestFile, 'utf8')));
+          } catch (err) {
+              logger.warn({ runId, err }, 'Unreadable outputs.json; artifacts are only available in the bundle');
+          }
+          if (artifacts.length > 0) {
+              artifactsKey = artifactsPrefix(runId);
+              await this.evidenceStore.deletePrefix(artifactsKey);
+              // The files come from the workspace: only regular files inside the bundle are stored, never symlink targets
+              const bundleRoot = fs.realpathSync(bundleDir) + path.sep;
+              const stored: typeof artifacts = [];
+              for (const artifact of artifacts) {
+                  const source = path.join(bundleDir, artifact.path);
+                  const stat = fs.lstatSync(source, { throwIfNoEntry: false });
+                  if (!stat?.isFile() || !fs.realpathSync(source).startsWith(bundleRoot)) {
+                      logger.warn({ runId, artifact: artifact.name }, 'Skipping artifact that is not a regular file in the bundle');
+                      continue;
+                  }
+                  await this.evidenceStore.put(`${artifactsKey}/${artifact.name}`, source, artifact.mimeType);
+                  stored.push(artifact);
+              }
+              artifacts = stored;
+          }
+      }
 
-      // 8. Update DB
+      // 9. Update DB
       await this.db
         .updateTable('evidence_bundles')
         .set({
           status: 'ready',
-          bundle_path: zipFilePath,
+          bundle_path: zipKey,
+          // Serialized by hand: pg would send a bare array as a Postgres array, not JSON
+          artifacts: artifacts.length > 0 ? JSON.stringify(artifacts) : null,
+          artifacts_path: artifactsKey,
           updated_at: new Date()
         })
         .where('run_id', '=', runId)
         .execute();
 
-      logger.info({ runId, zipFilePath }, 'Evidence bundle built successfully');
+      stopTimer({ status: 'ready' });
+      span.end();
+      logger.info({ runId, key: zipKey, store: this.evidenceStore.kind }, 'Evidence bundle built successfully');
 
       // Cleanup temp
       fs.rmSync(tempDir, { recursive: true, force: true });
 
     } catch (error: any) {
+      stopTimer({ status: 'error' });
+      span.recordError(error);
+      span.end();
       logger.error({ runId, err: error }, 'Failed to build evidence bundle');
       await this.db
         .updateTable('evidence_bundles')
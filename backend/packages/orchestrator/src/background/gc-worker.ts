@@ -1,14 +1,15 @@
 import { Kysely, sql } from 'kysely';
 import { Database } from '@codex/shared';
-import { WorkspaceManager } from '@codex/workspace-manager';
-import fs from 'fs/promises';
+import { evidenceVolumeName, WorkspaceManager } from '@codex/workspace-manager';
 import { metrics } from '../metrics';
 import { logger } from '../logger';
+import { recordAuditEvent } from '../lib/audit';
+import { EvidenceStore } from '../lib/evidence-store';
 
 const WORKSPACE_COLD_TTL_DAYS = parseInt(process.env.WORKSPACE_COLD_TTL_DAYS || '30', 10);
 const EVIDENCE_TTL_DAYS = parseInt(process.env.EVIDENCE_TTL_DAYS || '180', 10);
 
-export function startGCWorker(db: Kysely<Database>, workspaceManager: WorkspaceManager) {
+export function startGCWorker(db: Kysely<Database>, workspaceManager: WorkspaceManager, evidenceStore: EvidenceStore) {
   logger.info({ msg: 'Starting GC worker', WORKSPACE_COLD_TTL_DAYS, EVIDENCE_TTL_DAYS });
 
   // Run GC every hour by default, or configurable
@@ -17,13 +18,13 @@ export function startGCWorker(db: Kysely<Database>, workspaceManager: WorkspaceM
 
   setInterval(async () => {
     await runWorkspaceGC(db, workspaceManager);
-    await runEvidenceGC(db);
+    await runEvidenceGC(db, evidenceStore);
   }, intervalMs);
 
   // Also run once on startup (with a small delay to let things settle)
   setTimeout(async () => {
     await runWorkspaceGC(db, workspaceManager);
-    await runEvidenceGC(db);
+    await runEvidenceGC(db, evidenceStore);
   }, 5000);
 }
 
@@ -37,7 +38,7 @@ export async function runWorkspaceGC(db: Kysely<Database>, workspaceManager: Wor
     // Find cold workspaces older than limit
     const coldWorkspaces = await db
       .selectFrom('workspaces')
-      .select(['id', 'volume_name'])
+      .select(['id', 'project_id', 'volume_name'])
       .where('state', '=', 'cold')
       .where('last_active_at', '<', limitDate)
       .where('volume_name', 'is not', null)
@@ -52,6 +53,7 @@ export async function runWorkspaceGC(db: Kysely<Database>, workspaceManager: Wor
     for (const ws of coldWorkspaces) {
       if (ws.volume_name) {
         await workspaceManager.deleteVolume(ws.volume_name);
+        await workspaceManager.deleteVolume(evidenceVolumeName(ws.volume_name));
       }
 
       // Mark as deleted
@@ -68,13 +70,14 @@ export async function runWorkspaceGC(db: Kysely<Database>, workspaceManager: Wor
 
       metrics.increment('arp_workspace_gc_total');
       logger.info({ msg: 'GC deleted workspace volume', workspaceId: ws.id });
+      await recordAuditEvent(db, { action: 'workspace.gc', projectId: ws.project_id, workspaceId: ws.id, details: { volumeName: ws.volume_name } });
     }
   } catch (err) {
     logger.error({ err }, 'Error in Workspace GC');
   }
 }
 
-export async function runEvidenceGC(db: Kysely<Database>) {
+export async function runEvidenceGC(db: Kysely<Database>, evidenceStore: EvidenceStore) {
   try {
     const limitDate = new Date(Date.now() - EVIDENCE_TTL_DAYS * 24 * 60 * 60 * 1000);
 
@@ -82,7 +85,7 @@ export async function runEvidenceGC(db: Kysely<Database>) {
 
     const oldBundles = await db
       .selectFrom('evidence_bundles')
-      .select(['id', 'bundle_path'])
+      .select(['id', 'run_id', 'project_id', 'bundle_path', 'artifacts_path'])
       .where('status', '=', 'ready')
       .where('created_at', '<', limitDate)
       .where('bundle_path', 'is not', null)
@@ -97,29 +100,36 @@ export async function runEvidenceGC(db: Kysely<Database>) {
     for (const bundle of oldBundles) {
       if (bundle.bundle_path) {
         try {
-          await fs.unlink(bundle.bundle_path);
+          // Missing objects are fine: deleting them is a no-op in every store
+          await evidenceStore.delete(bundle.bundle_path);
           logger.info({ msg: 'GC deleted evidence file', path: bundle.bundle_path });
         } catch (e: any) {
-            // If file missing, that's fine, still mark deleted
-            if (e.code !== 'ENOENT') {
-                logger.warn({ err: e, path: bundle.bundle_path }, 'Failed to delete evidence file');
-                // If we can't delete the file, do we still mark DB as deleted?
-                // Yes, to prevent retry loop on permission errors, or we can skip.
-                // Let's proceed to mark as deleted so we don't get stuck.
-            }
+            logger.warn({ err: e, path: bundle.bundle_path }, 'Failed to delete evidence file');
+            // If we can't delete the file, do we still mark DB as deleted?
+            // Yes, to prevent retry loop on permission errors, or we can skip.
+            // Let's proceed to mark as deleted so we don't get stuck.
         }
       }
 
+      if (bundle.artifacts_path) {
+        await evidenceStore.deletePrefix(bundle.artifacts_path).catch((e: any) => {
+          logger.warn({ err: e, path: bundle.artifacts_path }, 'Failed to delete evidence artifacts');
+        });
+      }
+
       await db
         .updateTable('evidence_bundles')
         .set({
           status: 'deleted', // Assuming 'deleted' fits in TEXT column
-          bundle_path: null
+          bundle_path: null,
+          artifacts: null,
+          artifacts_path: null
         })
         .where('id', '=', bundle.id)
         .execute();
 
       metrics.increment('arp_evidence_gc_total');
+      await recordAuditEvent(db, { action: 'evidence.gc', projectId: bundle.project_id, runId: bundle.run_id });
     }
 
   } catch (err) {
@@ -1,6 +1,10 @@
 import { Kysely, sql } from 'kysely';
 import { Database } from '@codex/shared';
 import { WorkspaceManager } from '@codex/workspace-manager';
+import { recordAuditEvent } from '../lib/audit';
+
+// Bundles still pending after this long no longer keep their workspace warm
+const EVIDENCE_BUILD_WAIT_MINUTES = parseInt(process.env.EVIDENCE_BUILD_WAIT_MINUTES || '10', 10);
 
 export function startIdleReaper(db: Kysely<Database>, workspaceManager: WorkspaceManager) {
   console.log('Starting idle reaper...');
@@ -20,12 +24,21 @@ async function reapIdleWorkspaces(db: Kysely<Database>, workspaceManager: Worksp
   try {
     // 1. Find workspaces that are warm AND expired
     const now = new Date();
+    const buildWaitLimit = new Date(now.getTime() - EVIDENCE_BUILD_WAIT_MINUTES * 60 * 1000);
     const idleWorkspaces = await db
       .selectFrom('workspaces')
-      .select(['id', 'container_id'])
+      .select(['id', 'project_id', 'container_id'])
       .where('state', '=', 'warm')
       .where('idle_expires_at', '<', now)
       .where('container_id', 'is not', null)
+      // Builds can read a cold workspace's volume, but copying from the running container is quicker
+      .where((eb) => eb.not(eb.exists(
+        eb.selectFrom('evidence_bundles')
+          .select('evidence_bundles.id')
+          .whereRef('evidence_bundles.workspace_id', '=', 'workspaces.id')
+          .where('evidence_bundles.status', '=', 'pending')
+          .where('evidence_bundles.updated_at', '>', buildWaitLimit)
+      )))
       .execute();
 
     if (idleWorkspaces.length === 0) {
@@ -54,6 +67,7 @@ async function reapIdleWorkspaces(db: Kysely<Database>, workspaceManager: Worksp
         .execute();
         
       console.log(`Workspace ${ws.id} is now cold.`);
+      await recordAuditEvent(db, { action: 'workspace.reap', projectId: ws.project_id, workspaceId: ws.id, details: { containerId: ws.container_id } });
     }
 
   } catch (error) {
@@ -0,0 +1,170 @@
+import { Kysely, Selectable } from 'kysely';
+import { Database, RunsTable } from '@codex/shared';
+import { randomUUID } from 'crypto';
+import { LockManager } from '../lib/lock-manager';
+import { checkQuota, QuotaStatus } from '../lib/quota';
+import { RunExecutor } from '../lib/run-executor';
+import { RunEventStore } from '../lib/run-events';
+import { projectHasRunningRun, runOwnership, startRunHeartbeat } from '../lib/run-ownership';
+import { logger } from '../logger';
+import { metrics } from '../metrics';
+import { tracer } from '../tracing';
+
+const RUN_DISPATCH_INTERVAL_MS = parseInt(process.env.RUN_DISPATCH_INTERVAL_MS || '1000', 10);
+const RUN_DISPATCH_CONCURRENCY = parseInt(process.env.RUN_DISPATCH_CONCURRENCY || '4', 10);
+
+// Projects currently being drained by this process
+const activeProjects = new Set<string>();
+
+export function startRunDispatcher(db: Kysely<Database>, lockManager: LockManager, runExecutor: RunExecutor, runEventStore: RunEventStore) {
+  logger.info({ msg: 'Starting run dispatcher', RUN_DISPATCH_INTERVAL_MS, RUN_DISPATCH_CONCURRENCY });
+
+  // Runs left 'running' by a stopped process (this one before a restart, or another replica) are
+  // failed once their heartbeat expires; live replicas keep theirs fresh
+  startRunHeartbeat(db, runEventStore);
+
+  setInterval(async () => {
+    await dispatchQueuedRuns(db, lockManager, runExecutor, runEventStore);
+  }, RUN_DISPATCH_INTERVAL_MS);
+}
+
+// Exposed for testing/manual trigger
+export async function dispatchQueuedRuns(db: Kysely<Database>, lockManager: LockManager, runExecutor: RunExecutor, runEventStore: RunEventStore) {
+  try {
+    const projects = await db
+      .selectFrom('runs')
+      .select('project_id')
+      .where('status', '=', 'queued')
+      .groupBy('project_id')
+      .orderBy(db.fn.min('queued_at'))
+      .execute();
+
+    for (const { project_id } of projects) {
+      if (activeProjects.size >= RUN_DISPATCH_CONCURRENCY) break;
+      if (activeProjects.has(project_id)) continue;
+
+      activeProjects.add(project_id);
+      drainProject(db, lockManager, runExecutor, runEventStore, project_id)
+        .catch(err => logger.error({ err, projectId: project_id }, 'Error draining run queue'))
+        .finally(() => activeProjects.delete(project_id));
+    }
+  } catch (err) {
+    logger.error({ err }, 'Error in run dispatcher');
+  }
+}
+
+// Execute queued runs for a project one at a time, oldest first. Stops when the queue is empty or the
+// project is busy (its lock is held, here or by another replica); the next dispatch round retries.
+async function drainProject(db: Kysely<Database>, lockManager: LockManager, runExecutor: RunExecutor, runEventStore: RunEventStore, projectId: string) {
+  while (true) {
+    const executed = await lockManager.tryRun(projectId, async () => {
+      const next = await db
+        .selectFrom('runs')
+        .select(['id', 'user_id', 'queued_at'])
+        .where('project_id', '=', projectId)
+        .where('status', '=', 'queued')
+        .orderBy('queued_at', 'asc')
+        .limit(1)
+        .executeTakeFirst();
+
+      if (!next) {
+        return false;
+      }
+      // Left running by a stopped orchestrator; the heartbeat check fails it eventually
+      if (await projectHasRunningRun(db, projectId)) {
+        return false;
+      }
+
+      // Enqueuing checked the quota too, but a burst of enqueues all pass before any of them counts
+      const quota = await checkQuota(db, next.user_id, projectId, { id: next.id, queuedAt: next.queued_at || new Date() });
+      if (!quota.allowed) {
+        await failOverQuotaRun(db, runEventStore, next.id, quota.limiting!);
+        metrics.increment('arp_quota_exceeded_total', { user_id: next.user_id, metric: quota.limiting!.metric, window: quota.limiting!.window });
+        return true;
+      }
+
+      // Claim the run; the status guard keeps a second dispatcher from taking it too
+      const startTime = Date.now();
+      const run = await db
+        .updateTable('runs')
+        .set({ status: 'running', started_at: new Date(startTime), ...runOwnership() })
+        .where('id', '=', next.id)
+        .where('status', '=', 'queued')
+        .returningAll()
+        .executeTakeFirst();
+
+      if (!run) {
+        return true;
+      }
+
+      await tracer.withSpan('run.dispatch', { runId: run.id, projectId }, (span) =>
+        executeClaimedRun(db, runExecutor, runEventStore, run, startTime, span.traceId)
+      );
+      return true;
+    });
+
+    if (!executed) {
+      return;
+    }
+  }
+}
+
+// Fail a queued run instead of claiming it, because the runs queued before it used up a quota
+async function failOverQuotaRun(db: Kysely<Database>, runEventStore: RunEventStore, runId: string, limiting: QuotaStatus) {
+  const error = `Quota exceeded: ${limiting.scope} ${limiting.metric} per ${limiting.window} (limit ${limiting.limit})`;
+  const failed = await db
+    .updateTable('runs')
+    .set({ status: 'failed', error_message: error, finished_at: new Date(), duration_ms: 0 })
+    .where('id', '=', runId)
+    .where('status', '=', 'queued')
+    .executeTakeFirst();
+
+  if (Number(failed.numUpdatedRows) > 0) {
+    runEventStore.record({ type: 'run-complete', ts: new Date().toISOString(), runId, status: 'failed', error });
+    logger.warn({ msg: 'Queued run failed: quota exceeded', runId, quota: limiting });
+  }
+}
+
+// Run a claimed queued run, or fail it if its workspace is no longer warm
+async function executeClaimedRun(
+  db: Kysely<Database>,
+  runExecutor: RunExecutor,
+  runEventStore: RunEventStore,
+  run: Selectable<RunsTable>,
+  startTime: number,
+  traceId: string
+) {
+  const requestId = randomUUID();
+  const log = logger.child({ requestId, runId: run.id, dispatcher: true, traceId });
+
+  const workspace = await tracer.withSpan('workspace.lookup', { projectId: run.project_id }, () => db
+    .selectFrom('workspaces')
+    .select(['id', 'container_id', 'state', 'runtime_metadata'])
+    .where('id', '=', run.workspace_id)
+    .executeTakeFirst());
+
+  if (!workspace || workspace.state !== 'warm' || !workspace.container_id) {
+    const error = 'No warm workspace found. Open project first.';
+    await db
+      .updateTable('runs')
+      .set({
+        status: 'failed',
+        error_message: error,
+        finished_at: new Date(),
+        duration_ms: 0
+      })
+      .where('id', '=', run.id)
+      .where('status', '=', 'running')
+      .execute();
+    runEventStore.record({ type: 'run-complete', ts: new Date().toISOString(), runId: run.id, status: 'failed', error });
+    log.warn({ msg: 'Queued run failed: workspace not warm', workspaceId: run.workspace_id });
+    return;
+  }
+
+  log.info({ msg: 'Dispatching queued run', projectId: run.project_id });
+  await runExecutor.execute(
+    { runId: run.id, userId: run.user_id, projectId: run.project_id, text: run.prompt, startTime, requestId },
+    { id: workspace.id, container_id: workspace.container_id, runtime_metadata: workspace.runtime_metadata },
+    { log, streaming: false }
+  );
+}
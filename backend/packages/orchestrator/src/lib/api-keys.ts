@@ -0,0 +1,68 @@
+import { createHash, randomBytes } from 'crypto';
+import { Selectable } from 'kysely';
+import { ApiKeysTable } from '@codex/shared';
+
+/**
+ * `read` covers GET requests, `run` everything that starts or changes work in the user's own
+ * projects, `admin` the /admin and /ops routes. Each scope includes the ones before it.
+ */
+export const API_KEY_SCOPES = ['read', 'run', 'admin'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export function hashApiKey(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * A new random key. Only the hash is stored; the token is shown to the caller once.
+ */
+export function generateApiKey(): { token: string; hash: string } {
+  const token = randomBytes(32).toString('hex');
+  return { token, hash: hashApiKey(token) };
+}
+
+/**
+ * Highest scope a key grants. Keys issued before scopes existed (null) keep full access,
+ * and admin access always also requires the user to be an admin.
+ */
+export function effectiveScope(scopes: string[] | null, isAdmin: boolean): ApiKeyScope {
+  const granted = scopes === null
+    ? API_KEY_SCOPES.slice()
+    : API_KEY_SCOPES.filter(scope => scopes.includes(scope));
+  const allowed = granted.filter(scope => scope !== 'admin' || isAdmin);
+  return allowed.reduce<ApiKeyScope>(
+    (highest, scope) => API_KEY_SCOPES.indexOf(scope) > API_KEY_SCOPES.indexOf(highest) ? scope : highest,
+    'read'
+  );
+}
+
+export function hasScope(granted: ApiKeyScope, required: ApiKeyScope): boolean {
+  return API_KEY_SCOPES.indexOf(granted) >= API_KEY_SCOPES.indexOf(required);
+}
+
+/**
+ * Scope a request needs, derived from the route: admin and ops routes need `admin`,
+ * reads need `read` and everything else needs `run`.
+ */
+export function requiredScope(method: string, routeUrl: string): ApiKeyScope {
+  if (routeUrl.startsWith('/admin/') || routeUrl.startsWith('/ops/')) {
+    return 'admin';
+  }
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'run';
+}
+
+/**
+ * API representation of a key; never includes the hash.
+ */
+export function describeApiKey(key: Selectable<ApiKeysTable>) {
+  return {
+    id: key.id,
+    userId: key.user_id,
+    label: key.label,
+    scopes: key.scopes,
+    expiresAt: key.expires_at,
+    lastUsedAt: key.last_used_at,
+    createdAt: key.created_at,
+    revokedAt: key.revoked_at
+  };
+}
@@ -0,0 +1,65 @@
+import path from 'path';
+import { z } from 'zod';
+
+const MB = 1024 * 1024;
+
+const artifactPatternSchema = z.string().min(1).max(256).refine((pattern) => {
+  const normalized = path.posix.normalize(pattern);
+  return !path.posix.isAbsolute(normalized) && normalized !== '..' && !normalized.startsWith('../');
+}, { message: 'Artifact patterns must be relative to the working directory' });
+
+/**
+ * Files the worker keeps from each run (coverage reports, build outputs, screenshots), as globs
+ * relative to its working directory. Limits are capped by ARTIFACT_MAX_FILE_MB / ARTIFACT_MAX_TOTAL_MB.
+ */
+export const artifactConfigSchema = z.object({
+  patterns: z.array(artifactPatternSchema).min(1).max(50),
+  maxFileMb: z.number().positive().optional(),
+  maxTotalMb: z.number().positive().optional(),
+}).strict();
+
+export type ArtifactConfig = z.infer<typeof artifactConfigSchema>;
+
+export interface ArtifactEntry {
+  name: string;
+  path: string;
+  size: number;
+  sha256: string;
+  mimeType: string;
+}
+
+export function getArtifactLimits() {
+  return {
+    maxFileMb: parseFloat(process.env.ARTIFACT_MAX_FILE_MB || '50'),
+    maxTotalMb: parseFloat(process.env.ARTIFACT_MAX_TOTAL_MB || '200')
+  };
+}
+
+/**
+ * The worker's artifact settings for a project: its patterns, with its limits clamped to the global ones.
+ */
+export function artifactWorkerConfig(config: ArtifactConfig) {
+  const limits = getArtifactLimits();
+  return {
+    patterns: config.patterns,
+    maxFileBytes: Math.floor(Math.min(config.maxFileMb ?? limits.maxFileMb, limits.maxFileMb) * MB),
+    maxTotalBytes: Math.floor(Math.min(config.maxTotalMb ?? limits.maxTotalMb, limits.maxTotalMb) * MB)
+  };
+}
+
+/**
+ * Artifact entries from a bundle's outputs.json. The manifest is written inside the workspace, so
+ * entries are validated: only well-formed ones whose files stay inside the artifacts directory are kept.
+ */
+export function validArtifactEntries(manifest: any): ArtifactEntry[] {
+  if (!manifest || !Array.isArray(manifest.artifacts)) {
+    return [];
+  }
+  return manifest.artifacts.filter((entry: any): entry is ArtifactEntry => {
+    if (!entry || typeof entry.name !== 'string' || typeof entry.size !== 'number' || typeof entry.sha256 !== 'string' || typeof entry.mimeType !== 'string') {
+      return false;
+    }
+    const normalized = path.posix.normalize(entry.name);
+    return normalized === entry.name && !path.posix.isAbsolute(normalized) && !normalized.startsWith('../') && entry.path === `artifacts/${entry.name}`;
+  });
+}
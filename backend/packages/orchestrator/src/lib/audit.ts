@@ -0,0 +1,159 @@
+import { Kysely, Selectable } from 'kysely';
+import { FastifyRequest } from 'fastify';
+import { AuditEventsTable, Database } from '@codex/shared';
+import { logger } from '../logger';
+
+export type AuditAction =
+  | 'auth.failure'
+  | 'user.create'
+  | 'user.update'
+  | 'api_key.create'
+  | 'api_key.update'
+  | 'api_key.revoke'
+  | 'project.create'
+  | 'project.update'
+  | 'project.members.update'
+  | 'project.credentials.update'
+  | 'project.credentials.delete'
+  | 'project.secrets.update'
+  | 'project.secrets.delete'
+  | 'workspace.open'
+  | 'workspace.stop'
+  | 'workspace.reap'
+  | 'workspace.gc'
+  | 'run.queue'
+  | 'run.start'
+  | 'run.finish'
+  | 'run.cancel'
+  | 'run.policy_violation'
+  | 'evidence.download'
+  | 'evidence.verify'
+  | 'evidence.rebuild'
+  | 'evidence.gc'
+  | 'ops.gc';
+
+export interface AuditEntry {
+  action: AuditAction;
+  outcome?: 'success' | 'failure';
+  // Omitted for actions taken by background jobs
+  actorUserId?: string | null;
+  actorKeyId?: string | null;
+  projectId?: string | null;
+  workspaceId?: string | null;
+  runId?: string | null;
+  // For actions on something other than a project, workspace or run (users, keys)
+  targetType?: string;
+  targetId?: string;
+  ip?: string | null;
+  requestId?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditFilter {
+  from?: Date;
+  to?: Date;
+  action?: string;
+  actorUserId?: string;
+  projectId?: string;
+  runId?: string;
+  // Only events on these projects or by this user (non-admin callers)
+  visibleTo?: { userId: string; projectIds: string[] };
+  // Keyset pagination: events with a smaller id than this
+  before?: string;
+  limit: number;
+}
+
+/**
+ * Actor, source address and request id of an authenticated (or failed) API request.
+ */
+export function requestActor(request: FastifyRequest): Pick<AuditEntry, 'actorUserId' | 'actorKeyId' | 'ip' | 'requestId'> {
+  return {
+    actorUserId: request.user?.id ?? null,
+    actorKeyId: request.user?.keyId ?? null,
+    ip: request.ip,
+    requestId: request.id
+  };
+}
+
+/**
+ * Append an event to the audit log. Never throws: a failed write is logged and the action proceeds.
+ */
+export function recordAuditEvent(db: Kysely<Database>, entry: AuditEntry): Promise<void> {
+  return db
+    .insertInto('audit_events')
+    .values({
+      action: entry.action,
+      outcome: entry.outcome || 'success',
+      actor_user_id: entry.actorUserId ?? null,
+      actor_key_id: entry.actorKeyId ?? null,
+      project_id: entry.projectId ?? null,
+      workspace_id: entry.workspaceId ?? null,
+      run_id: entry.runId ?? null,
+      target_type: entry.targetType ?? null,
+      target_id: entry.targetId ?? null,
+      ip: entry.ip ?? null,
+      request_id: entry.requestId ?? null,
+      details: entry.details ?? null
+    })
+    .execute()
+    .then(() => undefined)
+    .catch(err => {
+      logger.error({ err, action: entry.action }, 'Failed to write audit event');
+    });
+}
+
+/**
+ * Audit events matching the filter, newest first.
+ */
+export async function queryAuditEvents(db: Kysely<Database>, filter: AuditFilter): Promise<Selectable<AuditEventsTable>[]> {
+  let query = db
+    .selectFrom('audit_events')
+    .selectAll()
+    .orderBy('id', 'desc')
+    .limit(filter.limit);
+
+  if (filter.from) query = query.where('occurred_at', '>=', filter.from);
+  if (filter.to) query = query.where('occurred_at', '<', filter.to);
+  if (filter.action) {
+    // `run` matches every run.* action
+    query = filter.action.includes('.')
+      ? query.where('action', '=', filter.action)
+      : query.where('action', 'like', `${filter.action}.%`);
+  }
+  if (filter.actorUserId) query = query.where('actor_user_id', '=', filter.actorUserId);
+  if (filter.projectId) query = query.where('project_id', '=', filter.projectId);
+  if (filter.runId) query = query.where('run_id', '=', filter.runId);
+  if (filter.before) query = query.where('id', '<', filter.before);
+
+  const visibleTo = filter.visibleTo;
+  if (visibleTo) {
+    query = query.where((eb) => eb.or([
+      eb('actor_user_id', '=', visibleTo.userId),
+      ...(visibleTo.projectIds.length > 0 ? [eb('project_id', 'in', visibleTo.projectIds)] : [])
+    ]));
+  }
+
+  return query.execute();
+}
+
+/**
+ * API (and JSONL export) representation of an audit event.
+ */
+export function describeAuditEvent(event: Selectable<AuditEventsTable>) {
+  return {
+    id: event.id,
+    occurredAt: event.occurred_at,
+    action: event.action,
+    outcome: event.outcome,
+    actorUserId: event.actor_user_id,
+    actorKeyId: event.actor_key_id,
+    projectId: event.project_id,
+    workspaceId: event.workspace_id,
+    runId: event.run_id,
+    targetType: event.target_type,
+    targetId: event.target_id,
+    ip: event.ip,
+    requestId: event.request_id,
+    details: event.details
+  };
+}
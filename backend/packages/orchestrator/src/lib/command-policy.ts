@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+// Regexes are compiled by the worker; reject ones that would never match anything there
+const regexSchema = z.string().min(1).refine((pattern) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'Invalid regular expression' });
+
+// Mirrors the codex-worker's PolicyRule
+export const policyRuleSchema = z.object({
+  action: z.enum(['allow', 'deny']),
+  // Program name, matched against the basename of argv[0]
+  command: z.string().min(1).regex(/^[^\s/]+$/, 'command must be a program name'),
+  subcommands: z.array(z.string().min(1)).min(1).optional(),
+  argPatterns: z.array(regexSchema).optional(),
+  forbiddenArgs: z.array(regexSchema).optional(),
+  network: z.boolean().optional(),
+}).strict();
+
+/**
+ * Per-project policy for commands the agent runs in its workspace. Rules are evaluated in order
+ * against each simple command of a command line; the first matching rule decides.
+ */
+export const commandPolicySchema = z.object({
+  defaultAction: z.enum(['allow', 'deny']),
+  allowNetwork: z.boolean().optional(),
+  rules: z.array(policyRuleSchema).max(200),
+}).strict();
+
+export type CommandPolicy = z.infer<typeof commandPolicySchema>;
@@ -0,0 +1,307 @@
+import http from 'http';
+import net from 'net';
+import os from 'os';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Kysely } from 'kysely';
+import { z } from 'zod';
+import { Database } from '@codex/shared';
+import { EGRESS_PROXY_ALIAS, WorkspaceEgress, WorkspaceManager } from '@codex/workspace-manager';
+import { logger } from '../logger';
+import { metrics } from '../metrics';
+import { usesPublishedWorkerPorts } from './worker-client';
+
+export const EGRESS_MODES = ['none', 'allowlist', 'open'] as const;
+export type EgressMode = typeof EGRESS_MODES[number];
+
+// `example.com`, `*.example.com` or either with a port, e.g. `registry.npmjs.org:443`
+export const egressHostSchema = z.string().toLowerCase().regex(
+  /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*(:\d{1,5})?$/,
+  'Expected a host name, *.domain, optionally with :port'
+);
+
+export const egressAllowlistSchema = z.array(egressHostSchema).max(200);
+
+interface WorkspaceIdentity {
+  projectId: string;
+  userId: string;
+}
+
+/**
+ * Whether a destination matches one of the allowlist entries.
+ */
+export function isHostAllowed(allowlist: string[], host: string, port: number): boolean {
+  const target = host.toLowerCase();
+  return allowlist.some(entry => {
+    const [pattern, entryPort] = entry.toLowerCase().split(':');
+    if (entryPort && Number(entryPort) !== port) {
+      return false;
+    }
+    return pattern.startsWith('*.') ? target.endsWith(pattern.slice(1)) : target === pattern;
+  });
+}
+
+/**
+ * Hosts every restricted workspace needs: the model API and the project's git remote (for
+ * clone and publish), plus EGRESS_ALWAYS_ALLOW.
+ */
+function requiredHosts(repoUrl: string): string[] {
+  const hosts = (process.env.EGRESS_ALWAYS_ALLOW || '')
+    .split(',')
+    .map(host => host.trim())
+    .filter(host => host.length > 0);
+  for (const url of [process.env.OPENAI_BASE_URL || 'https://api.openai.com', repoUrl]) {
+    try {
+      hosts.push(new URL(url).hostname);
+    } catch {
+      // Not a URL (e.g. scp-style git remote); nothing to allow
+    }
+  }
+  return hosts;
+}
+
+// `host:port` of a CONNECT request, with bracketed IPv6 literals
+function parseAuthority(authority: string, defaultPort: number): { host: string; port: number } | null {
+  const match = authority.match(/^\[?([^\]]+?)\]?(?::(\d+))?$/);
+  if (!match) return null;
+  return { host: match[1], port: match[2] ? parseInt(match[2], 10) : defaultPort };
+}
+
+/**
+ * Forward proxy for workspaces with a restricted egress mode. Each restricted workspace sits on an
+ * internal network of its own, to which the orchestrator's container is attached as EGRESS_PROXY_ALIAS.
+ * Workspaces authenticate with per-workspace credentials (see egressFor); each destination is checked against the project's
+ * current mode and allowlist, so allowlist changes apply immediately. Refused attempts are
+ * recorded in egress_events and end up in the evidence of the run they occurred in.
+ */
+export class EgressProxy {
+  private db: Kysely<Database>;
+  private workspaceManager: WorkspaceManager;
+  private port: number;
+  // Signs workspace credentials; without EGRESS_PROXY_SECRET, workspaces must be reopened after a restart
+  private secret: Buffer;
+  // The orchestrator's own container, attached to the workspaces' networks; null outside Docker
+  private proxyContainer: string | null = null;
+
+  constructor(db: Kysely<Database>, workspaceManager: WorkspaceManager) {
+    this.db = db;
+    this.workspaceManager = workspaceManager;
+    this.port = parseInt(process.env.EGRESS_PROXY_PORT || '3128', 10);
+    this.secret = process.env.EGRESS_PROXY_SECRET ? Buffer.from(process.env.EGRESS_PROXY_SECRET) : randomBytes(32);
+  }
+
+  async start(): Promise<void> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(err => {
+        logger.error({ err }, 'Egress proxy request failed');
+        if (!res.headersSent) res.writeHead(502);
+        res.end();
+      });
+    });
+    server.on('connect', (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+      this.handleConnect(req, socket, head).catch(err => {
+        logger.error({ err }, 'Egress proxy tunnel failed');
+        socket.destroy();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, '0.0.0.0', () => resolve());
+    });
+    this.proxyContainer = await this.resolveProxyContainer();
+    logger.info({ port: this.port, proxyContainer: this.proxyContainer }, 'Egress proxy listening');
+  }
+
+  /**
+   * Whether workspaces can reach the proxy, i.e. restricted egress modes can be used.
+   */
+  get available(): boolean {
+    return this.proxyContainer !== null;
+  }
+
+  /**
+   * Egress settings for a restricted workspace: the proxy URL, with credentials identifying the
+   * workspace, and the container to attach to its network. Null if workspaces cannot reach the proxy.
+   */
+  egressFor(projectId: string, workspaceUserId: string): Required<Pick<WorkspaceEgress, 'proxyUrl' | 'proxyContainer'>> | null {
+    if (!this.proxyContainer) {
+      return null;
+    }
+    const username = `${projectId}.${workspaceUserId}`;
+    return {
+      proxyUrl: `http://${username}:${this.sign(username)}@${EGRESS_PROXY_ALIAS}:${this.port}`,
+      proxyContainer: this.proxyContainer
+    };
+  }
+
+  private async resolveProxyContainer(): Promise<string | null> {
+    // Restricted workspaces sit on internal networks, which a host process cannot join (nor reach published ports on)
+    if (usesPublishedWorkerPorts()) {
+      logger.warn('Egress proxy is unreachable from workspaces when the orchestrator runs outside Docker; restricted egress modes are disabled');
+      return null;
+    }
+    // In Docker the hostname is our container id
+    const container = process.env.EGRESS_PROXY_CONTAINER || os.hostname();
+    try {
+      await this.workspaceManager.getContainerIp(container);
+      await this.workspaceManager.attachToEgressNetworks(container);
+      return container;
+    } catch (err) {
+      logger.warn({ err, container }, 'Egress proxy is unreachable from workspaces; set EGRESS_PROXY_CONTAINER to the orchestrator\'s container to enable restricted egress modes');
+      return null;
+    }
+  }
+
+  private sign(username: string): string {
+    return createHmac('sha256', this.secret).update(username).digest('hex');
+  }
+
+  private authenticate(req: http.IncomingMessage): WorkspaceIdentity | null {
+    const header = req.headers['proxy-authorization'];
+    if (!header || !header.startsWith('Basic ')) {
+      return null;
+    }
+    const [username, password] = Buffer.from(header.slice(6), 'base64').toString('utf8').split(':');
+    if (!username || !password) {
+      return null;
+    }
+    const expected = Buffer.from(this.sign(username));
+    const given = Buffer.from(password);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      return null;
+    }
+    const [projectId, userId] = username.split('.');
+    return { projectId, userId };
+  }
+
+  // Reason the destination is refused, or null if it may be reached
+  private async check(identity: WorkspaceIdentity, host: string, port: number): Promise<string | null> {
+    const project = await this.db
+      .selectFrom('projects')
+      .select(['repo_url', 'egress_mode', 'egress_allowlist'])
+      .where('id', '=', identity.projectId)
+      .executeTakeFirst();
+
+    if (!project) {
+      return 'Unknown project';
+    }
+    if (project.egress_mode === 'open') {
+      return null;
+    }
+    const allowlist = [
+      ...requiredHosts(project.repo_url),
+      ...(project.egress_mode === 'allowlist' ? project.egress_allowlist || [] : [])
+    ];
+    if (isHostAllowed(allowlist, host, port)) {
+      return null;
+    }
+    return project.egress_mode === 'none'
+      ? 'Outbound network access is disabled for this project'
+      : `${host}:${port} is not on the project's egress allowlist`;
+  }
+
+  private async recordBlocked(identity: WorkspaceIdentity, method: string, host: string, port: number, reason: string) {
+    logger.warn({ ...identity, method, host, port, reason }, 'Egress blocked');
+    metrics.increment('arp_egress_blocked_total');
+    try {
+      const workspace = await this.db
+        .selectFrom('workspaces')
+        .select('id')
+        .where('project_id', '=', identity.projectId)
+        .where('user_id', '=', identity.userId)
+        .executeTakeFirst();
+
+      await this.db
+        .insertInto('egress_events')
+        .values({ project_id: identity.projectId, workspace_id: workspace?.id ?? null, method, host, port, reason })
+        .execute();
+    } catch (err) {
+      logger.error({ err }, 'Failed to record blocked egress attempt');
+    }
+  }
+
+  // HTTPS (and anything else tunnelled): CONNECT host:port
+  private async handleConnect(req: http.IncomingMessage, socket: net.Socket, head: Buffer) {
+    socket.on('error', () => socket.destroy());
+    const destination = parseAuthority(req.url || '', 443);
+    if (!destination) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const identity = this.authenticate(req);
+    if (!identity) {
+      socket.end('HTTP/1.1 407 Proxy Authentication Required\r\nProxy-Authenticate: Basic realm="arp-egress"\r\n\r\n');
+      return;
+    }
+
+    const reason = await this.check(identity, destination.host, destination.port);
+    if (reason) {
+      await this.recordBlocked(identity, 'CONNECT', destination.host, destination.port, reason);
+      socket.end(`HTTP/1.1 403 Forbidden\r\nContent-Type: text/plain\r\n\r\n${reason}\n`);
+      return;
+    }
+
+    const upstream = net.connect(destination.port, destination.host, () => {
+      socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      if (head.length > 0) upstream.write(head);
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+    upstream.on('error', () => {
+      if (socket.writable) socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+      socket.destroy();
+    });
+    socket.on('close', () => upstream.destroy());
+  }
+
+  // Plain HTTP: the request line carries an absolute URL
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    let url: URL;
+    try {
+      url = new URL(req.url || '');
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('Expected an absolute URL\n');
+      return;
+    }
+    if (url.protocol !== 'http:') {
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('Only http:// URLs can be proxied without CONNECT\n');
+      return;
+    }
+
+    const identity = this.authenticate(req);
+    if (!identity) {
+      res.writeHead(407, { 'Proxy-Authenticate': 'Basic realm="arp-egress"' });
+      res.end();
+      return;
+    }
+
+    const port = url.port ? parseInt(url.port, 10) : 80;
+    const reason = await this.check(identity, url.hostname, port);
+    if (reason) {
+      await this.recordBlocked(identity, req.method || 'GET', url.hostname, port, reason);
+      res.writeHead(403, { 'Content-Type': 'text/plain' });
+      res.end(`${reason}\n`);
+      return;
+    }
+
+    const { 'proxy-authorization': _auth, 'proxy-connection': _connection, ...headers } = req.headers;
+    const upstream = http.request({
+      host: url.hostname,
+      port,
+      method: req.method,
+      path: `${url.pathname}${url.search}`,
+      headers
+    }, (upstreamRes) => {
+      res.writeHead(upstreamRes.statusCode || 502, upstreamRes.headers);
+      upstreamRes.pipe(res);
+    });
+    upstream.on('error', () => {
+      if (!res.headersSent) res.writeHead(502);
+      res.end();
+    });
+    req.pipe(upstream);
+  }
+}
@@ -0,0 +1,37 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+function getKey(): Buffer {
+  const raw = process.env.SECRETS_ENCRYPTION_KEY;
+  if (!raw) {
+    throw new Error('SECRETS_ENCRYPTION_KEY is not set');
+  }
+  const key = Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    throw new Error('SECRETS_ENCRYPTION_KEY must be 32 bytes, base64-encoded');
+  }
+  return key;
+}
+
+/**
+ * Encrypt a secret for storage. Output format: `v1:<iv>:<authTag>:<ciphertext>` (base64 parts).
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+  return [VERSION, iv.toString('base64'), authTag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, iv, authTag, ciphertext] = payload.split(':');
+  if (version !== VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error('Unrecognized secret payload format');
+  }
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
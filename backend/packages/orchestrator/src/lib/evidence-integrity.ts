@@ -0,0 +1,230 @@
+// Manifests, signatures and verification for evidence bundles. Uses Node built-ins only, so the
+// verifier also works offline (see scripts/verify-evidence-signature.js).
+import { createHash, createPrivateKey, createPublicKey, KeyObject, sign, verify } from 'crypto';
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import util from 'util';
+
+const execFileAsync = util.promisify(execFile);
+
+export const MANIFEST_FILE = 'MANIFEST.json';
+export const SIGNATURE_FILE = 'MANIFEST.sig';
+
+export interface ManifestEntry {
+  path: string; // Relative to the bundle's run directory, `/`-separated
+  size: number;
+  sha256: string;
+}
+
+export interface EvidenceManifest {
+  version: 1;
+  runId: string;
+  createdAt: string;
+  files: ManifestEntry[];
+}
+
+export interface EvidenceSignature {
+  algorithm: 'ed25519';
+  keyId: string;
+  // Over the exact bytes of MANIFEST.json, base64
+  signature: string;
+}
+
+export interface VerificationResult {
+  valid: boolean;
+  runId: string | null;
+  keyId: string | null;
+  signatureValid: boolean;
+  fileCount: number;
+  // Listed files whose content differs, listed files that are gone, and files the manifest doesn't list
+  modified: string[];
+  missing: string[];
+  unexpected: string[];
+  error?: string;
+}
+
+export interface SigningKey {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  keyId: string;
+}
+
+/**
+ * Short identifier of a public key: the first 16 hex digits of the SHA-256 of its SPKI encoding.
+ */
+export function publicKeyId(publicKey: KeyObject): string {
+  return createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest('hex').slice(0, 16);
+}
+
+/**
+ * The orchestrator's Ed25519 signing key: EVIDENCE_SIGNING_KEY (PEM, PKCS#8) or the PEM file at
+ * EVIDENCE_SIGNING_KEY_PATH. Never generated: a new key would silently change what bundles are signed
+ * with. The file must not be under `evidenceRoot`, where it would sit next to the evidence it vouches for.
+ */
+export function loadSigningKey(evidenceRoot: string): SigningKey {
+  let privateKey: KeyObject;
+  const keyFile = process.env.EVIDENCE_SIGNING_KEY_PATH;
+  if (process.env.EVIDENCE_SIGNING_KEY) {
+    privateKey = createPrivateKey(process.env.EVIDENCE_SIGNING_KEY.replace(/\\n/g, '\n'));
+  } else if (keyFile) {
+    if (!fs.existsSync(keyFile)) {
+      throw new Error(`EVIDENCE_SIGNING_KEY_PATH ${keyFile} does not exist`);
+    }
+    const root = fs.realpathSync(evidenceRoot) + path.sep;
+    if (fs.realpathSync(keyFile).startsWith(root)) {
+      throw new Error(`EVIDENCE_SIGNING_KEY_PATH must be outside EVIDENCE_ROOT (${evidenceRoot})`);
+    }
+    privateKey = createPrivateKey(fs.readFileSync(keyFile, 'utf8'));
+  } else {
+    throw new Error('No evidence signing key configured: set EVIDENCE_SIGNING_KEY or EVIDENCE_SIGNING_KEY_PATH to an Ed25519 private key (openssl genpkey -algorithm ed25519)');
+  }
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error('The evidence signing key must be an Ed25519 key');
+  }
+  const publicKey = createPublicKey(privateKey);
+  return { privateKey, publicKey, keyId: publicKeyId(publicKey) };
+}
+
+function sha256File(file: string): string {
+  return createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+}
+
+// Regular files under `dir`, sorted; symlinks and other special files are reported separately
+function listBundleFiles(dir: string): { files: string[]; special: string[] } {
+  const files: string[] = [];
+  const special: string[] = [];
+  const walk = (relative: string) => {
+    for (const entry of fs.readdirSync(path.join(dir, relative), { withFileTypes: true })) {
+      const name = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        walk(name);
+      } else if (entry.isFile()) {
+        files.push(name);
+      } else {
+        special.push(name);
+      }
+    }
+  };
+  walk('');
+  return { files: files.sort(), special: special.sort() };
+}
+
+/**
+ * Hash every file of a bundle directory, then write MANIFEST.json and its signature, MANIFEST.sig.
+ */
+export function signBundleDirectory(dir: string, runId: string, key: SigningKey): EvidenceManifest {
+  const { files } = listBundleFiles(dir);
+  const manifest: EvidenceManifest = {
+    version: 1,
+    runId,
+    createdAt: new Date().toISOString(),
+    files: files
+      .filter(file => file !== MANIFEST_FILE && file !== SIGNATURE_FILE)
+      .map(file => ({ path: file, size: fs.statSync(path.join(dir, file)).size, sha256: sha256File(path.join(dir, file)) }))
+  };
+
+  const manifestBytes = Buffer.from(JSON.stringify(manifest, null, 2));
+  const signature: EvidenceSignature = {
+    algorithm: 'ed25519',
+    keyId: key.keyId,
+    signature: sign(null, manifestBytes, key.privateKey).toString('base64')
+  };
+  fs.writeFileSync(path.join(dir, MANIFEST_FILE), manifestBytes);
+  fs.writeFileSync(path.join(dir, SIGNATURE_FILE), JSON.stringify(signature, null, 2));
+  return manifest;
+}
+
+/**
+ * Check an extracted bundle directory (the one holding MANIFEST.json, named after its run) against a
+ * public key, and, given `expectedRunId`, that it is that run's bundle.
+ */
+export function verifyBundleDirectory(dir: string, publicKey: KeyObject, expectedRunId?: string): VerificationResult {
+  const result: VerificationResult = {
+    valid: false,
+    runId: null,
+    keyId: null,
+    signatureValid: false,
+    fileCount: 0,
+    modified: [],
+    missing: [],
+    unexpected: []
+  };
+
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+  const signaturePath = path.join(dir, SIGNATURE_FILE);
+  if (!fs.existsSync(manifestPath) || !fs.existsSync(signaturePath)) {
+    return { ...result, error: 'Bundle has no MANIFEST.json or MANIFEST.sig (built before bundles were signed?)' };
+  }
+
+  let manifest: EvidenceManifest;
+  let signature: EvidenceSignature;
+  const manifestBytes = fs.readFileSync(manifestPath);
+  try {
+    manifest = JSON.parse(manifestBytes.toString('utf8'));
+    signature = JSON.parse(fs.readFileSync(signaturePath, 'utf8'));
+  } catch {
+    return { ...result, error: 'MANIFEST.json or MANIFEST.sig is not valid JSON' };
+  }
+
+  result.runId = manifest.runId ?? null;
+  result.keyId = signature.keyId ?? null;
+  try {
+    result.signatureValid = signature.algorithm === 'ed25519'
+      && verify(null, manifestBytes, publicKey, Buffer.from(signature.signature, 'base64'));
+  } catch {
+    result.signatureValid = false;
+  }
+  if (!result.signatureValid) {
+    const keyHint = signature.keyId && signature.keyId !== publicKeyId(publicKey) ? ` (signed with key ${signature.keyId})` : '';
+    return { ...result, error: `Manifest signature is invalid${keyHint}` };
+  }
+  // A validly signed bundle of one run must not pass as another run's
+  if (manifest.runId !== path.basename(dir)) {
+    return { ...result, error: `Manifest is for run ${manifest.runId}, but the bundle directory is ${path.basename(dir)}` };
+  }
+  if (expectedRunId !== undefined && manifest.runId !== expectedRunId) {
+    return { ...result, error: `Bundle is for run ${manifest.runId}, not ${expectedRunId}` };
+  }
+
+  const { files, special } = listBundleFiles(dir);
+  const present = new Set(files);
+  const listed = new Set<string>();
+  for (const entry of manifest.files || []) {
+    listed.add(entry.path);
+    if (!present.has(entry.path)) {
+      result.missing.push(entry.path);
+    } else if (sha256File(path.join(dir, entry.path)) !== entry.sha256) {
+      result.modified.push(entry.path);
+    }
+  }
+  result.unexpected = [
+    ...files.filter(file => !listed.has(file) && file !== MANIFEST_FILE && file !== SIGNATURE_FILE),
+    ...special
+  ];
+  result.fileCount = listed.size;
+  result.valid = result.modified.length === 0 && result.missing.length === 0 && result.unexpected.length === 0;
+  return result;
+}
+
+/**
+ * Extract an evidence zip to a temporary directory and verify it. Bundles hold a single `<runId>/` directory.
+ */
+export async function verifyBundleZip(zipPath: string, publicKey: KeyObject, expectedRunId?: string): Promise<VerificationResult> {
+  const extractDir = fs.mkdtempSync(path.join(os.tmpdir(), 'evidence-verify-'));
+  try {
+    try {
+      await execFileAsync('unzip', ['-q', '-o', zipPath, '-d', extractDir]);
+    } catch {
+      return { valid: false, runId: null, keyId: null, signatureValid: false, fileCount: 0, modified: [], missing: [], unexpected: [], error: 'Not a readable zip archive' };
+    }
+    const entries = fs.readdirSync(extractDir, { withFileTypes: true });
+    if (entries.length !== 1 || !entries[0].isDirectory()) {
+      return { valid: false, runId: null, keyId: null, signatureValid: false, fileCount: 0, modified: [], missing: [], unexpected: [], error: 'Bundle must hold a single <runId>/ directory' };
+    }
+    return verifyBundleDirectory(path.join(extractDir, entries[0].name), publicKey, expectedRunId);
+  } finally {
+    fs.rmSync(extractDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,337 @@
+import { createHash, createHmac } from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import path from 'path';
+import { Readable } from 'stream';
+
+/**
+ * Where finished evidence lives: bundles under `<runId>.zip` and artifacts under `artifacts/<runId>/<name>`.
+ * Keys are `/`-separated; `evidence_bundles.bundle_path` and `artifacts_path` hold keys, not paths.
+ */
+export interface EvidenceStore {
+  readonly kind: 'local' | 's3';
+  // Moves (local) or uploads (s3) a file from the orchestrator's disk
+  put(key: string, sourceFile: string, contentType: string): Promise<void>;
+  // null when the object doesn't exist
+  get(key: string): Promise<{ stream: Readable; size: number } | null>;
+  delete(key: string): Promise<void>;
+  deletePrefix(prefix: string): Promise<void>;
+  // A time-limited URL clients can download from directly, or null if the backend can't serve one
+  presignedUrl(key: string, options: { filename: string; contentType: string }): Promise<string | null>;
+}
+
+export function bundleKey(runId: string): string {
+  return `${runId}.zip`;
+}
+
+export function artifactsPrefix(runId: string): string {
+  return `artifacts/${runId}`;
+}
+
+export class LocalEvidenceStore implements EvidenceStore {
+  readonly kind = 'local';
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+    fs.mkdirSync(this.root, { recursive: true });
+  }
+
+  // Bundles built before evidence stores existed recorded absolute paths; those are read as they are
+  private resolve(key: string): string {
+    if (path.isAbsolute(key)) {
+      return key;
+    }
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Evidence key escapes the evidence root: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, sourceFile: string): Promise<void> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    try {
+      await fs.promises.rename(sourceFile, target);
+    } catch (err: any) {
+      // EVIDENCE_ROOT and the build's temp directory on different filesystems
+      if (err.code !== 'EXDEV') throw err;
+      await fs.promises.copyFile(sourceFile, target);
+      await fs.promises.unlink(sourceFile);
+    }
+  }
+
+  async get(key: string) {
+    const file = this.resolve(key);
+    // Symlinks are never served, whatever they point at
+    const stat = await fs.promises.lstat(file).catch(() => null);
+    if (!stat || !stat.isFile()) {
+      return null;
+    }
+    return { stream: fs.createReadStream(file), size: stat.size };
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.promises.rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+
+  async presignedUrl(): Promise<string | null> {
+    return null;
+  }
+}
+
+export interface S3EvidenceStoreConfig {
+  bucket: string;
+  region: string;
+  // e.g. http://minio:9000; AWS's regional endpoint if omitted
+  endpoint?: string;
+  // Endpoint used in presigned URLs, when clients reach the store at a different address than the orchestrator
+  publicEndpoint?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Prepended to every key, e.g. `evidence/`
+  prefix?: string;
+  // Bucket in the path rather than the host name; the default for custom endpoints
+  forcePathStyle?: boolean;
+  // 0 disables presigned downloads, so every download streams through the orchestrator
+  presignExpiresSeconds: number;
+}
+
+// RFC 3986 encoding as SigV4 expects it; `/` is kept in object paths
+function uriEncode(value: string, keepSlash = false): string {
+  const encoded = encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return keepSlash ? encoded.replace(/%2F/g, '/') : encoded;
+}
+
+function sha256Hex(value: string | Buffer): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+  return createHmac('sha256', key).update(value).digest();
+}
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+/**
+ * S3-compatible object storage (AWS S3, MinIO, R2, ...), spoken directly over HTTP with Signature V4.
+ */
+export class S3EvidenceStore implements EvidenceStore {
+  readonly kind = 's3';
+  private config: S3EvidenceStoreConfig;
+  private endpoint: URL;
+  private publicEndpoint: URL;
+  private pathStyle: boolean;
+
+  constructor(config: S3EvidenceStoreConfig) {
+    this.config = config;
+    this.endpoint = new URL(config.endpoint || `https://s3.${config.region}.amazonaws.com`);
+    this.publicEndpoint = config.publicEndpoint ? new URL(config.publicEndpoint) : this.endpoint;
+    this.pathStyle = config.forcePathStyle ?? Boolean(config.endpoint);
+  }
+
+  private bucketUrl(base = this.endpoint): URL {
+    const url = new URL(base.toString());
+    const basePath = url.pathname.replace(/\/$/, '');
+    if (this.pathStyle) {
+      url.pathname = `${basePath}/${this.config.bucket}/`;
+    } else {
+      url.hostname = `${this.config.bucket}.${url.hostname}`;
+      url.pathname = `${basePath}/`;
+    }
+    return url;
+  }
+
+  private objectUrl(key: string, base = this.endpoint): URL {
+    const url = this.bucketUrl(base);
+    url.pathname += uriEncode(`${this.config.prefix || ''}${key}`, true);
+    return url;
+  }
+
+  private signingKey(date: string): Buffer {
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, date);
+    return hmac(hmac(hmac(dateKey, this.config.region), 's3'), 'aws4_request');
+  }
+
+  // SigV4 signature; the URL must already carry every query parameter except X-Amz-Signature
+  private signature(method: string, url: URL, headers: Record<string, string>, payloadHash: string, amzDate: string): { signedHeaders: string; signature: string } {
+    const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const lowered = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()]));
+    const canonicalQuery = Array.from(url.searchParams.entries())
+      .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+      .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      names.map(name => `${name}:${lowered[name]}\n`).join(''),
+      names.join(';'),
+      payloadHash
+    ].join('\n');
+
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    return { signedHeaders: names.join(';'), signature: createHmac('sha256', this.signingKey(date)).update(stringToSign).digest('hex') };
+  }
+
+  private request(method: string, url: URL, options: { body?: Readable; contentLength?: number; contentType?: string } = {}): Promise<http.IncomingMessage> {
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': options.body ? UNSIGNED_PAYLOAD : sha256Hex(''),
+      'x-amz-date': amzDate
+    };
+    if (options.contentType) headers['content-type'] = options.contentType;
+
+    const { signedHeaders, signature } = this.signature(method, url, headers, headers['x-amz-content-sha256'], amzDate);
+    const credential = `${this.config.accessKeyId}/${amzDate.slice(0, 8)}/${this.config.region}/s3/aws4_request`;
+    const requestHeaders: Record<string, string | number> = {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+    };
+    if (options.contentLength !== undefined) requestHeaders['content-length'] = options.contentLength;
+
+    const transport = url.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const req = transport.request(url, { method, headers: requestHeaders }, resolve);
+      req.on('error', reject);
+      if (options.body) {
+        options.body.on('error', (err) => req.destroy(err));
+        options.body.pipe(req);
+      } else {
+        req.end();
+      }
+    });
+  }
+
+  // Rejects with the store's error for unexpected statuses; the response body is consumed either way
+  private async expectStatus(response: http.IncomingMessage, allowed: number[], action: string): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of response) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks).toString('utf8');
+    if (!allowed.includes(response.statusCode || 0)) {
+      const code = body.match(/<Code>([^<]*)<\/Code>/)?.[1] || `HTTP ${response.statusCode}`;
+      throw new Error(`Evidence store ${action} failed: ${code}`);
+    }
+    return body;
+  }
+
+  async put(key: string, sourceFile: string, contentType: string): Promise<void> {
+    const { size } = await fs.promises.stat(sourceFile);
+    const response = await this.request('PUT', this.objectUrl(key), {
+      body: fs.createReadStream(sourceFile),
+      contentLength: size,
+      contentType
+    });
+    await this.expectStatus(response, [200], `upload of ${key}`);
+    await fs.promises.unlink(sourceFile);
+  }
+
+  async get(key: string) {
+    const response = await this.request('GET', this.objectUrl(key));
+    if (response.statusCode === 404) {
+      response.resume();
+      return null;
+    }
+    if (response.statusCode !== 200) {
+      await this.expectStatus(response, [200], `download of ${key}`);
+    }
+    return { stream: response as Readable, size: parseInt(String(response.headers['content-length'] || '0'), 10) };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', this.objectUrl(key));
+    await this.expectStatus(response, [200, 204, 404], `delete of ${key}`);
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    const fullPrefix = `${this.config.prefix || ''}${prefix.replace(/\/$/, '')}/`;
+    let continuationToken: string | undefined;
+    do {
+      const url = this.bucketUrl();
+      url.searchParams.set('list-type', '2');
+      url.searchParams.set('prefix', fullPrefix);
+      if (continuationToken) url.searchParams.set('continuation-token', continuationToken);
+
+      const body = await this.expectStatus(await this.request('GET', url), [200], `listing of ${prefix}`);
+      const keys = Array.from(body.matchAll(/<Key>([^<]*)<\/Key>/g), match => decodeXmlText(match[1]));
+      for (const key of keys) {
+        await this.delete(key.slice((this.config.prefix || '').length));
+      }
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(body)
+        ? decodeXmlText(body.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/)?.[1] || '') || undefined
+        : undefined;
+    } while (continuationToken);
+  }
+
+  async presignedUrl(key: string, options: { filename: string; contentType: string }): Promise<string | null> {
+    if (this.config.presignExpiresSeconds <= 0) {
+      return null;
+    }
+
+    const url = this.objectUrl(key, this.publicEndpoint);
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+    url.searchParams.set('X-Amz-Credential', `${this.config.accessKeyId}/${amzDate.slice(0, 8)}/${this.config.region}/s3/aws4_request`);
+    url.searchParams.set('X-Amz-Date', amzDate);
+    url.searchParams.set('X-Amz-Expires', String(this.config.presignExpiresSeconds));
+    url.searchParams.set('X-Amz-SignedHeaders', 'host');
+    // The store sends these back as the response headers, so downloads behave as they do through the API
+    url.searchParams.set('response-content-disposition', `attachment; filename="${options.filename.replace(/["\\\r\n]/g, '_')}"`);
+    url.searchParams.set('response-content-type', options.contentType);
+
+    const { signature } = this.signature('GET', url, { host: url.host }, UNSIGNED_PAYLOAD, amzDate);
+    url.searchParams.set('X-Amz-Signature', signature);
+    // URLSearchParams encodes spaces as `+`; the signature was computed over %20
+    return url.toString().replace(/\+/g, '%20');
+  }
+}
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * The store configured by EVIDENCE_STORE (`local`, the default, or `s3`).
+ */
+export function createEvidenceStore(): EvidenceStore {
+  const kind = process.env.EVIDENCE_STORE || 'local';
+  if (kind === 'local') {
+    return new LocalEvidenceStore(process.env.EVIDENCE_ROOT || path.resolve(__dirname, '../../../../evidence'));
+  }
+  if (kind !== 's3') {
+    throw new Error(`Unknown EVIDENCE_STORE "${kind}" (expected local or s3)`);
+  }
+
+  const bucket = process.env.EVIDENCE_S3_BUCKET;
+  const accessKeyId = process.env.EVIDENCE_S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.EVIDENCE_S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY;
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('EVIDENCE_STORE=s3 needs EVIDENCE_S3_BUCKET and access keys (EVIDENCE_S3_ACCESS_KEY_ID/EVIDENCE_S3_SECRET_ACCESS_KEY)');
+  }
+  return new S3EvidenceStore({
+    bucket,
+    region: process.env.EVIDENCE_S3_REGION || 'us-east-1',
+    endpoint: process.env.EVIDENCE_S3_ENDPOINT || undefined,
+    publicEndpoint: process.env.EVIDENCE_S3_PUBLIC_ENDPOINT || undefined,
+    accessKeyId,
+    secretAccessKey,
+    prefix: process.env.EVIDENCE_S3_PREFIX || undefined,
+    forcePathStyle: process.env.EVIDENCE_S3_FORCE_PATH_STYLE ? process.env.EVIDENCE_S3_FORCE_PATH_STYLE === 'true' : undefined,
+    presignExpiresSeconds: parseInt(process.env.EVIDENCE_PRESIGN_SECONDS || '300', 10)
+  });
+}
@@ -0,0 +1,76 @@
+import { Kysely } from 'kysely';
+import { z } from 'zod';
+import { Database } from '@codex/shared';
+import { GitCredentials } from '@codex/workspace-manager';
+import { decryptSecret, encryptSecret } from './encryption';
+
+export const gitCredentialsSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('https-token'),
+    token: z.string().min(1),
+    username: z.string().min(1).optional(),
+  }),
+  z.object({
+    type: z.literal('ssh-key'),
+    privateKey: z.string().min(1),
+  }),
+]);
+
+export async function saveProjectCredentials(db: Kysely<Database>, projectId: string, credentials: GitCredentials) {
+  const secret = credentials.type === 'https-token' ? credentials.token : credentials.privateKey;
+  const username = credentials.type === 'https-token' ? credentials.username ?? null : null;
+  const secretCiphertext = encryptSecret(secret);
+
+  await db
+    .insertInto('project_credentials')
+    .values({
+      project_id: projectId,
+      kind: credentials.type,
+      username,
+      secret_ciphertext: secretCiphertext
+    })
+    .onConflict((oc) => oc.column('project_id').doUpdateSet({
+      kind: credentials.type,
+      username,
+      secret_ciphertext: secretCiphertext,
+      updated_at: new Date()
+    }))
+    .execute();
+}
+
+/**
+ * Decrypted credentials for a project, for handing to the workspace manager only.
+ */
+export async function loadProjectCredentials(db: Kysely<Database>, projectId: string): Promise<GitCredentials | null> {
+  const row = await db
+    .selectFrom('project_credentials')
+    .selectAll()
+    .where('project_id', '=', projectId)
+    .executeTakeFirst();
+
+  if (!row) {
+    return null;
+  }
+
+  const secret = decryptSecret(row.secret_ciphertext);
+  if (row.kind === 'ssh-key') {
+    return { type: 'ssh-key', privateKey: secret };
+  }
+  return { type: 'https-token', token: secret, username: row.username ?? undefined };
+}
+
+/**
+ * Public view of a project's credentials (never includes the secret).
+ */
+export async function describeProjectCredentials(db: Kysely<Database>, projectId: string) {
+  const row = await db
+    .selectFrom('project_credentials')
+    .select(['kind', 'username', 'created_at', 'updated_at'])
+    .where('project_id', '=', projectId)
+    .executeTakeFirst();
+
+  if (!row) {
+    return null;
+  }
+  return { type: row.kind, username: row.username, createdAt: row.created_at, updatedAt: row.updated_at };
+}
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+import { GitCredentials } from '@codex/workspace-manager';
+
+export interface PullRequestInput {
+  repoUrl: string;
+  headBranch: string;
+  // Defaults to the repository's default branch
+  baseBranch?: string;
+  title: string;
+  body: string;
+}
+
+export interface PullRequest {
+  url: string;
+  number?: number;
+}
+
+/**
+ * A git hosting service that can open pull/merge requests for pushed branches.
+ */
+export interface GitHostAdapter {
+  readonly name: string;
+  matches(repoUrl: string): boolean;
+  openPullRequest(input: PullRequestInput, credentials: GitCredentials | null): Promise<PullRequest>;
+}
+
+/**
+ * GitHub (or GitHub Enterprise via GITHUB_API_URL). Authenticates with the project's https token.
+ */
+export class GitHubAdapter implements GitHostAdapter {
+  readonly name = 'github';
+  private apiUrl: string;
+  private host: string;
+
+  constructor() {
+    this.apiUrl = (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/$/, '');
+    this.host = process.env.GITHUB_HOST || 'github.com';
+  }
+
+  matches(repoUrl: string): boolean {
+    return this.parseRepo(repoUrl) !== null;
+  }
+
+  async openPullRequest(input: PullRequestInput, credentials: GitCredentials | null): Promise<PullRequest> {
+    const repo = this.parseRepo(input.repoUrl);
+    if (!repo) {
+      throw new Error(`Not a GitHub repository: ${input.repoUrl}`);
+    }
+    if (!credentials || credentials.type !== 'https-token') {
+      throw new Error('Opening GitHub pull requests requires https-token credentials');
+    }
+
+    const headers = {
+      'Accept': 'application/vnd.github+json',
+      'Authorization': `Bearer ${credentials.token}`,
+      'Content-Type': 'application/json'
+    };
+    const repoApi = `${this.apiUrl}/repos/${repo.owner}/${repo.name}`;
+
+    let baseBranch = input.baseBranch;
+    if (!baseBranch) {
+      const response = await fetch(repoApi, { headers });
+      if (!response.ok) {
+        throw new Error(`GitHub responded with ${response.status}: ${await response.text()}`);
+      }
+      baseBranch = ((await response.json()) as { default_branch: string }).default_branch;
+    }
+
+    const response = await fetch(`${repoApi}/pulls`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ title: input.title, body: input.body, head: input.headBranch, base: baseBranch })
+    });
+    if (!response.ok) {
+      throw new Error(`GitHub responded with ${response.status}: ${await response.text()}`);
+    }
+
+    const pull = (await response.json()) as { html_url: string; number: number };
+    return { url: pull.html_url, number: pull.number };
+  }
+
+  private parseRepo(repoUrl: string): { owner: string; name: string } | null {
+    const host = this.host.replace(/\./g, '\\.');
+    const match = repoUrl.match(new RegExp(`^(?:https://${host}/|git@${host}:|ssh://git@${host}/)([^/]+)/([^/]+?)(?:\\.git)?/?$`));
+    return match ? { owner: match[1], name: match[2] } : null;
+  }
+}
+
+/**
+ * Repositories on the local filesystem (e.g. a bare repo used in tests). There is no review UI,
+ * so each pull request is recorded as a JSON file under LOCAL_PULL_REQUESTS_DIR.
+ */
+export class LocalGitHostAdapter implements GitHostAdapter {
+  readonly name = 'local';
+  private root: string;
+
+  constructor() {
+    this.root = process.env.LOCAL_PULL_REQUESTS_DIR || path.resolve(__dirname, '../../../../pull-requests');
+  }
+
+  matches(repoUrl: string): boolean {
+    return repoUrl.startsWith('file://') || repoUrl.startsWith('/');
+  }
+
+  async openPullRequest(input: PullRequestInput): Promise<PullRequest> {
+    const repoPath = input.repoUrl.replace(/^file:\/\//, '');
+    const dir = path.join(this.root, path.basename(repoPath).replace(/\.git$/, ''));
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    const existing = (await fs.promises.readdir(dir)).filter(file => file.endsWith('.json'));
+    const number = existing.length + 1;
+    const file = path.join(dir, `${number}.json`);
+    await fs.promises.writeFile(file, JSON.stringify({
+      number,
+      repoUrl: input.repoUrl,
+      head: input.headBranch,
+      base: input.baseBranch || null,
+      title: input.title,
+      body: input.body,
+      createdAt: new Date().toISOString()
+    }, null, 2), { flag: 'wx' });
+
+    return { url: `file://${file}`, number };
+  }
+}
+
+const adapters: GitHostAdapter[] = [new GitHubAdapter(), new LocalGitHostAdapter()];
+
+/**
+ * Add support for another git host. Adapters registered later take precedence.
+ */
+export function registerGitHostAdapter(adapter: GitHostAdapter) {
+  adapters.unshift(adapter);
+}
+
+/**
+ * The adapter able to open pull requests for a repository, or null if the host is unsupported.
+ */
+export function getGitHostAdapter(repoUrl: string): GitHostAdapter | null {
+  return adapters.find(adapter => adapter.matches(repoUrl)) || null;
+}
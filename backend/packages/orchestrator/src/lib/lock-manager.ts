@@ -1,13 +1,43 @@
+import { Kysely, sql } from 'kysely';
+import { Database } from '@codex/shared';
+import { logger } from '../logger';
+import { tracer } from '../tracing';
+
+// How often a task waits before trying again for a key another replica holds
+const LOCK_RETRY_MS = parseInt(process.env.LOCK_RETRY_MS || '250', 10);
+
 export class LockManager {
+  private db: Kysely<Database>;
   private mutexes: Map<string, Promise<void>> = new Map();
 
+  constructor(db: Kysely<Database>) {
+    this.db = db;
+  }
+
   /**
    * Serialize execution of tasks for a given key.
-   * Ensures that for a given key, 'fn' is only executed after the previous task for that key has completed.
+   * Ensures that for a given key, 'fn' is only executed after the previous task for that key has completed,
+   * in this process and in every other replica sharing the database.
    */
   async run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const result = await this.serialize(key, true, fn);
+    return result!.value;
+  }
+
+  /**
+   * Like run, but resolves to undefined without executing 'fn' if a task holds the key right now.
+   */
+  async tryRun<T>(key: string, fn: () => Promise<T>): Promise<T | undefined> {
+    if (this.mutexes.has(key)) {
+      return undefined;
+    }
+    const result = await this.serialize(key, false, fn);
+    return result?.value;
+  }
+
+  private async serialize<T>(key: string, wait: boolean, fn: () => Promise<T>): Promise<{ value: T } | null> {
     const mutex = this.mutexes.get(key) || Promise.resolve();
-    
+
     // Create a completion signal for THIS task
     let resolve!: () => void;
     const completion = new Promise<void>(r => { resolve = r; });
@@ -17,16 +47,49 @@ export class LockManager {
     const newMutex = mutex.then(() => completion);
     this.mutexes.set(key, newMutex);
 
-    // Wait for turn
+    // Wait for turn (traced only as part of a request or run, not for background polling)
+    const waitSpan = tracer.activeContext() ? tracer.startSpan('lock.wait', { key }) : null;
     await mutex;
 
     try {
-      return await fn();
+      while (true) {
+        const result = await this.withAdvisoryLock(key, () => {
+          waitSpan?.end();
+          return fn();
+        });
+        if (result || !wait) {
+          return result;
+        }
+        await new Promise(r => setTimeout(r, LOCK_RETRY_MS));
+      }
     } finally {
+      waitSpan?.end();
       resolve(); // Signal we are done, allowing next to proceed
       if (this.mutexes.get(key) === newMutex) {
         this.mutexes.delete(key);
       }
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Run 'fn' holding the key's Postgres advisory lock, or return null if another session holds it.
+   * The lock belongs to a connection, so that connection stays checked out of the pool until 'fn'
+   * completes; the lock is released with it if this process dies.
+   */
+  private async withAdvisoryLock<T>(key: string, fn: () => Promise<T>): Promise<{ value: T } | null> {
+    return this.db.connection().execute(async (connection) => {
+      const { rows } = await sql<{ locked: boolean }>`SELECT pg_try_advisory_lock(hashtext(${key})) AS locked`.execute(connection);
+      if (!rows[0].locked) {
+        return null;
+      }
+
+      try {
+        return { value: await fn() };
+      } finally {
+        await sql`SELECT pg_advisory_unlock(hashtext(${key}))`.execute(connection).catch(err => {
+          logger.error({ err, key }, 'Failed to release advisory lock');
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,102 @@
+import { Kysely } from 'kysely';
+import { Database } from '@codex/shared';
+
+/**
+ * `viewer` can read the project, its runs and evidence; `editor` can also open workspaces,
+ * send messages and act on runs; `owner` can also change settings, credentials and members.
+ */
+export const PROJECT_ROLES = ['viewer', 'editor', 'owner'] as const;
+export type ProjectRole = typeof PROJECT_ROLES[number];
+
+function higherRole(a: ProjectRole | undefined, b: ProjectRole): ProjectRole {
+  return a && PROJECT_ROLES.indexOf(a) >= PROJECT_ROLES.indexOf(b) ? a : b;
+}
+
+/**
+ * The user's role in each project they can access, from ownership and from direct or team grants.
+ * Pass `projectId` to resolve a single project.
+ */
+export async function getProjectRoles(db: Kysely<Database>, userId: string, projectId?: string): Promise<Map<string, ProjectRole>> {
+  let owned = db.selectFrom('projects').select('id').where('user_id', '=', userId);
+  let granted = db
+    .selectFrom('project_members')
+    .select(['project_id', 'role'])
+    .where((eb) => eb.or([
+      eb('user_id', '=', userId),
+      eb('team_id', 'in', eb.selectFrom('team_members').select('team_id').where('user_id', '=', userId))
+    ]));
+
+  if (projectId) {
+    owned = owned.where('id', '=', projectId);
+    granted = granted.where('project_id', '=', projectId);
+  }
+
+  const [ownedRows, grantedRows] = await Promise.all([owned.execute(), granted.execute()]);
+  const roles = new Map<string, ProjectRole>();
+  for (const row of ownedRows) {
+    roles.set(row.id, 'owner');
+  }
+  for (const row of grantedRows) {
+    roles.set(row.project_id, higherRole(roles.get(row.project_id), row.role));
+  }
+  return roles;
+}
+
+export function hasProjectRole(role: ProjectRole | null | undefined, required: ProjectRole): boolean {
+  return !!role && PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(required);
+}
+
+export interface ProjectAccess {
+  role: ProjectRole;
+  // User whose workspace serves the caller in this project, see workspaceOwnerId
+  workspaceUserId: string;
+}
+
+/**
+ * Resolve the user's access to a project, throwing `{ status, message }` when their role is below `required`.
+ * Projects the user cannot see at all are reported as not found.
+ */
+export async function requireProjectRole(db: Kysely<Database>, projectId: string, userId: string, required: ProjectRole): Promise<ProjectAccess> {
+  const [project, roles] = await Promise.all([
+    db.selectFrom('projects').select(['user_id', 'workspace_mode']).where('id', '=', projectId).executeTakeFirst(),
+    getProjectRoles(db, userId, projectId)
+  ]);
+  const role = roles.get(projectId);
+  if (!project || !role) {
+    throw { status: 404, message: 'Project not found' };
+  }
+  if (!hasProjectRole(role, required)) {
+    throw { status: 403, message: `Forbidden: requires the ${required} role on this project` };
+  }
+  return { role, workspaceUserId: workspaceOwnerId(project, userId) };
+}
+
+/**
+ * Load a run the user can access with at least `required` on its project. Same errors as requireProjectRole.
+ */
+export async function requireRunRole(db: Kysely<Database>, runId: string, userId: string, required: ProjectRole) {
+  const run = await db
+    .selectFrom('runs')
+    .select(['id', 'project_id', 'user_id'])
+    .where('id', '=', runId)
+    .executeTakeFirst();
+
+  if (!run) {
+    throw { status: 404, message: 'Run not found' };
+  }
+  try {
+    await requireProjectRole(db, run.project_id, userId, required);
+  } catch (err: any) {
+    throw err.status === 404 ? { status: 404, message: 'Run not found' } : err;
+  }
+  return run;
+}
+
+/**
+ * User whose workspace serves `userId` in the project: every member gets their own unless the
+ * project shares one workspace, which then belongs to the project owner (and counts against their
+ * warm workspace limit).
+ */
+export function workspaceOwnerId(project: { user_id: string; workspace_mode: 'per_user' | 'shared' }, userId: string): string {
+  return project.workspace_mode === 'shared' ? project.user_id : userId;
+}
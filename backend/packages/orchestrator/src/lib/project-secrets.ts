@@ -0,0 +1,83 @@
+import { Kysely } from 'kysely';
+import { z } from 'zod';
+import { Database } from '@codex/shared';
+import { SECRETS_DIR, WorkspaceSecret } from '@codex/workspace-manager';
+import { decryptSecret, encryptSecret } from './encryption';
+
+// Variables the runtime sets itself, that would change how the worker's git and proxying behave,
+// or that make node, the dynamic linker or shells run code before the worker's own
+const RESERVED_NAMES = [
+  'OPENAI_API_KEY', 'FORCE_MOCK_CODEX', 'CODEX_MODEL', 'CODEX_THREAD_ID', 'BASE_REF', 'REPO_SUBDIR',
+  'HTTP_PROXY', 'HTTPS_PROXY', 'NO_PROXY', 'PATH', 'HOME',
+  'NODE_OPTIONS', 'LD_PRELOAD', 'BASH_ENV', 'ENV'
+];
+const RESERVED_PREFIXES = ['ARP_', 'GIT_'];
+
+// Also used as the file name for file secrets, so it must be a valid env var name either way
+export const projectSecretNameSchema = z.string().max(128).regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Secret names must be valid environment variable names')
+  .refine((name) => {
+    const upper = name.toUpperCase();
+    return !RESERVED_NAMES.includes(upper) && !RESERVED_PREFIXES.some(prefix => upper.startsWith(prefix));
+  }, { message: 'This name is reserved by the runtime' });
+
+export const projectSecretSchema = z.object({
+  value: z.string().min(1).max(64 * 1024),
+  // `env`: environment variable; `file`: SECRETS_DIR/<name> in the container
+  target: z.enum(['env', 'file']).default('env'),
+}).strict();
+
+export async function saveProjectSecret(db: Kysely<Database>, projectId: string, name: string, value: string, target: 'env' | 'file') {
+  const valueCiphertext = encryptSecret(value);
+
+  await db
+    .insertInto('project_secrets')
+    .values({
+      project_id: projectId,
+      name,
+      target,
+      value_ciphertext: valueCiphertext
+    })
+    .onConflict((oc) => oc.columns(['project_id', 'name']).doUpdateSet({
+      target,
+      value_ciphertext: valueCiphertext,
+      updated_at: new Date()
+    }))
+    .execute();
+}
+
+/**
+ * Decrypted secrets of a project, for handing to the workspace manager only.
+ */
+export async function loadProjectSecrets(db: Kysely<Database>, projectId: string): Promise<WorkspaceSecret[]> {
+  const rows = await db
+    .selectFrom('project_secrets')
+    .select(['name', 'target', 'value_ciphertext'])
+    .where('project_id', '=', projectId)
+    .orderBy('name')
+    .execute();
+
+  return rows
+    // Env secrets saved before their names were reserved are not injected
+    .filter(row => row.target === 'file' || projectSecretNameSchema.safeParse(row.name).success)
+    .map(row => ({ name: row.name, target: row.target, value: decryptSecret(row.value_ciphertext) }));
+}
+
+/**
+ * Public view of a project's secrets (never includes the values).
+ */
+export async function describeProjectSecrets(db: Kysely<Database>, projectId: string) {
+  const rows = await db
+    .selectFrom('project_secrets')
+    .select(['name', 'target', 'created_at', 'updated_at'])
+    .where('project_id', '=', projectId)
+    .orderBy('name')
+    .execute();
+
+  return rows.map(row => ({
+    name: row.name,
+    target: row.target,
+    path: row.target === 'file' ? `${SECRETS_DIR}/${row.name}` : null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }));
+}
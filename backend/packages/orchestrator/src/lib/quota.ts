@@ -1,23 +1,181 @@
 import { Kysely, sql } from 'kysely';
 import { Database } from '@codex/shared';
+import { tracer } from '../tracing';
 
 const DEFAULT_MAX_RUNS = 500;
 
-export async function checkQuota(db: Kysely<Database>, userId: string): Promise<boolean> {
-  const maxRuns = parseInt(process.env.MAX_RUNS_PER_DAY || String(DEFAULT_MAX_RUNS), 10);
-  
-  // Calculate start of current day in UTC
-  const startOfDay = new Date();
-  startOfDay.setUTCHours(0, 0, 0, 0);
+export const QUOTA_SCOPES = ['user', 'project'] as const;
+export const QUOTA_METRICS = ['runs', 'tokens', 'run_seconds'] as const;
+export const QUOTA_WINDOWS = ['hour', 'day', 'month'] as const;
 
-  const result = await db
+export type QuotaScope = typeof QUOTA_SCOPES[number];
+export type QuotaMetric = typeof QUOTA_METRICS[number];
+export type QuotaWindow = typeof QUOTA_WINDOWS[number];
+
+export interface QuotaStatus {
+  scope: QuotaScope;
+  scopeId: string;
+  metric: QuotaMetric;
+  window: QuotaWindow;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: Date;
+  source: 'override' | 'default';
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  statuses: QuotaStatus[];
+  // The status to report in X-RateLimit-* headers: the first exhausted one, else the one closest to exhaustion
+  limiting: QuotaStatus | null;
+}
+
+/**
+ * Default limit from the environment, e.g. QUOTA_PROJECT_TOKENS_PER_MONTH=5000000.
+ * Users keep the historical runs-per-day limit (MAX_RUNS_PER_DAY) unless configured otherwise.
+ */
+function getDefaultLimit(scope: QuotaScope, metric: QuotaMetric, window: QuotaWindow): number | null {
+  const value = process.env[`QUOTA_${scope.toUpperCase()}_${metric.toUpperCase()}_PER_${window.toUpperCase()}`];
+  if (value) {
+    return parseInt(value, 10);
+  }
+  if (scope === 'user' && metric === 'runs' && window === 'day') {
+    return parseInt(process.env.MAX_RUNS_PER_DAY || process.env.RUNS_PER_DAY_LIMIT_DEFAULT || String(DEFAULT_MAX_RUNS), 10);
+  }
+  return null;
+}
+
+// Windows are calendar-aligned in UTC, so every limit resets at a predictable time
+function windowBounds(window: QuotaWindow, now: Date): { start: Date; resetAt: Date } {
+  const start = new Date(now);
+  if (window === 'hour') {
+    start.setUTCMinutes(0, 0, 0);
+    return { start, resetAt: new Date(start.getTime() + 60 * 60 * 1000) };
+  }
+  start.setUTCHours(0, 0, 0, 0);
+  if (window === 'day') {
+    return { start, resetAt: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+  }
+  start.setUTCDate(1);
+  return { start, resetAt: new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1)) };
+}
+
+/**
+ * Effective limits for one scope: DB overrides win over environment defaults.
+ */
+export async function getQuotaLimits(db: Kysely<Database>, scope: QuotaScope, scopeId: string) {
+  const overrides = await db
+    .selectFrom('quota_limits')
+    .select(['metric', 'window', 'limit_value'])
+    .where('scope', '=', scope)
+    .where('scope_id', '=', scopeId)
+    .execute();
+
+  const limits: Array<{ metric: QuotaMetric; window: QuotaWindow; limit: number; source: 'override' | 'default' }> = [];
+  for (const metric of QUOTA_METRICS) {
+    for (const window of QUOTA_WINDOWS) {
+      const override = overrides.find(o => o.metric === metric && o.window === window);
+      const limit = override ? Number(override.limit_value) : getDefaultLimit(scope, metric, window);
+      if (limit !== null && !Number.isNaN(limit)) {
+        limits.push({ metric, window, limit, source: override ? 'override' : 'default' });
+      }
+    }
+  }
+  return limits;
+}
+
+// A queued run that is about to be claimed; only the runs queued before it count against its budget
+export interface QueuedRun {
+  id: string;
+  queuedAt: Date;
+}
+
+// Runs count from the moment they were queued, so queued runs use up the budget before they start
+const countedFrom = sql<Date>`coalesce(queued_at, started_at)`;
+
+async function measureUsage(db: Kysely<Database>, scope: QuotaScope, scopeId: string, since: Date, aheadOf?: QueuedRun) {
+  let query = db
     .selectFrom('runs')
-    .select(db.fn.count('id').as('count'))
-    .where('user_id', '=', userId)
-    .where('started_at', '>=', startOfDay)
-    .executeTakeFirst();
-
-  const count = Number(result?.count || 0);
-  
-  return count < maxRuns;
-}
\ No newline at end of file
+    .select([
+      db.fn.countAll<string>().as('runs'),
+      sql<string>`coalesce(sum(coalesce(input_tokens, 0) + coalesce(output_tokens, 0)), 0)`.as('tokens'),
+      sql<string>`coalesce(sum(duration_ms), 0)`.as('duration_ms'),
+    ])
+    .where(scope === 'user' ? 'user_id' : 'project_id', '=', scopeId)
+    .where(countedFrom, '>=', since)
+    .where('status', '!=', 'cancelled');
+  if (aheadOf) {
+    query = query.where(countedFrom, '<', aheadOf.queuedAt).where('id', '!=', aheadOf.id);
+  }
+  const row = await query.executeTakeFirstOrThrow();
+
+  return {
+    runs: Number(row.runs),
+    tokens: Number(row.tokens),
+    run_seconds: Math.round(Number(row.duration_ms) / 1000),
+  };
+}
+
+/**
+ * Current usage against every configured limit of a scope.
+ */
+export async function getQuotaStatuses(db: Kysely<Database>, scope: QuotaScope, scopeId: string, now = new Date(), aheadOf?: QueuedRun): Promise<QuotaStatus[]> {
+  const limits = await getQuotaLimits(db, scope, scopeId);
+  const usageByWindow = new Map<QuotaWindow, Awaited<ReturnType<typeof measureUsage>>>();
+
+  const statuses: QuotaStatus[] = [];
+  for (const { metric, window, limit, source } of limits) {
+    const { start, resetAt } = windowBounds(window, now);
+    if (!usageByWindow.has(window)) {
+      usageByWindow.set(window, await measureUsage(db, scope, scopeId, start, aheadOf));
+    }
+    const used = usageByWindow.get(window)![metric];
+    statuses.push({ scope, scopeId, metric, window, limit, used, remaining: Math.max(limit - used, 0), resetAt, source });
+  }
+  return statuses;
+}
+
+/**
+ * Whether the user may start another run in the project. A run needs budget left in every
+ * limit of both the user and the project; tokens and run-seconds are only known afterwards,
+ * so those limits block the run after the one that used them up. With `aheadOf`, whether that
+ * queued run may still start, given the runs queued before it.
+ */
+export async function checkQuota(db: Kysely<Database>, userId: string, projectId?: string, aheadOf?: QueuedRun): Promise<QuotaCheck> {
+  return tracer.withSpan('quota.check', { userId }, async () => {
+    const now = new Date();
+    const statuses = [
+      ...(await getQuotaStatuses(db, 'user', userId, now, aheadOf)),
+      ...(projectId ? await getQuotaStatuses(db, 'project', projectId, now, aheadOf) : []),
+    ];
+
+    const exhausted = statuses.filter(status => status.remaining <= 0);
+    const limiting = exhausted[0]
+      || statuses.slice().sort((a, b) => a.remaining / a.limit - b.remaining / b.limit)[0]
+      || null;
+
+    return { allowed: exhausted.length === 0, statuses, limiting };
+  });
+}
+
+/**
+ * X-RateLimit-* headers describing the most constraining limit.
+ */
+export function rateLimitHeaders(check: QuotaCheck): Record<string, string> {
+  const status = check.limiting;
+  if (!status) {
+    return {};
+  }
+
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(status.limit),
+    'X-RateLimit-Remaining': String(status.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(status.resetAt.getTime() / 1000)),
+    'X-RateLimit-Policy': `${status.scope};${status.metric};${status.window}`,
+  };
+  if (!check.allowed) {
+    headers['Retry-After'] = String(Math.max(Math.ceil((status.resetAt.getTime() - Date.now()) / 1000), 0));
+  }
+  return headers;
+}
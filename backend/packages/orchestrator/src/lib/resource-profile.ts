@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+export const resourceProfileSchema = z.object({
+  memoryMb: z.number().int().positive().optional(),
+  cpus: z.number().positive().optional(),
+  pidsLimit: z.number().int().positive().optional(),
+  diskQuotaGb: z.number().positive().optional(),
+  image: z.string().min(1).optional(),
+}).strict();
+
+export type ResourceProfile = z.infer<typeof resourceProfileSchema>;
+
+/**
+ * Admin-defined ceilings for project resource profiles, read from the environment.
+ * Image overrides are only accepted when listed in ALLOWED_WORKSPACE_IMAGES.
+ */
+export function getResourceLimits() {
+  return {
+    maxMemoryMb: parseInt(process.env.MAX_WORKSPACE_MEMORY_MB || '4096', 10),
+    maxCpus: parseFloat(process.env.MAX_WORKSPACE_CPUS || '2'),
+    maxPidsLimit: parseInt(process.env.MAX_WORKSPACE_PIDS || '1024', 10),
+    maxDiskQuotaGb: parseFloat(process.env.MAX_WORKSPACE_DISK_GB || '20'),
+    allowedImages: (process.env.ALLOWED_WORKSPACE_IMAGES || '')
+      .split(',')
+      .map(image => image.trim())
+      .filter(image => image.length > 0)
+  };
+}
+
+/**
+ * Returns a list of violations of the current limits (empty if the profile is acceptable).
+ */
+export function checkResourceProfile(profile: ResourceProfile): string[] {
+  const limits = getResourceLimits();
+  const violations: string[] = [];
+
+  if (profile.memoryMb !== undefined && profile.memoryMb > limits.maxMemoryMb) {
+    violations.push(`memoryMb exceeds maximum of ${limits.maxMemoryMb}`);
+  }
+  if (profile.cpus !== undefined && profile.cpus > limits.maxCpus) {
+    violations.push(`cpus exceeds maximum of ${limits.maxCpus}`);
+  }
+  if (profile.pidsLimit !== undefined && profile.pidsLimit > limits.maxPidsLimit) {
+    violations.push(`pidsLimit exceeds maximum of ${limits.maxPidsLimit}`);
+  }
+  if (profile.diskQuotaGb !== undefined && profile.diskQuotaGb > limits.maxDiskQuotaGb) {
+    violations.push(`diskQuotaGb exceeds maximum of ${limits.maxDiskQuotaGb}`);
+  }
+  if (profile.image !== undefined && !limits.allowedImages.includes(profile.image)) {
+    violations.push(`image ${profile.image} is not in ALLOWED_WORKSPACE_IMAGES`);
+  }
+
+  return violations;
+}
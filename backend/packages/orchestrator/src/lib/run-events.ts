@@ -0,0 +1,122 @@
+import { EventEmitter } from 'events';
+import { Kysely, sql } from 'kysely';
+import { CodexEvent, Database } from '@codex/shared';
+import { logger } from '../logger';
+
+/**
+ * In-process notification of recorded run events. Followers read the events from run_events
+ * (which every replica shares); the bus only wakes up those in the process executing the run early.
+ */
+class RunEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per subscribed client, no sensible upper bound
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: CodexEvent) {
+    this.emitter.emit(event.runId, event);
+  }
+
+  /**
+   * Subscribe to events for a run. Returns an unsubscribe function.
+   */
+  subscribe(runId: string, listener: (event: CodexEvent) => void): () => void {
+    this.emitter.on(runId, listener);
+    return () => {
+      this.emitter.off(runId, listener);
+    };
+  }
+}
+
+export const runEventBus = new RunEventBus();
+
+/**
+ * Format an event as an SSE frame. Recorded events carry their sequence as the SSE id,
+ * which clients send back as Last-Event-ID when they reconnect.
+ */
+export function formatSseEvent(event: CodexEvent): string {
+  const id = event.seq !== undefined ? `id: ${event.seq}\n` : '';
+  return `${id}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// Attempts at taking the next sequence number when another process records events for the same run
+const SEQ_ATTEMPTS = 5;
+
+/**
+ * Durable run event log. Every recorded event is persisted to run_events with the next per-run
+ * sequence number, allocated by the database so several processes can record events for one run,
+ * and published on the bus once stored.
+ */
+export class RunEventStore {
+  private db: Kysely<Database>;
+  private writes: Map<string, Promise<CodexEvent>> = new Map();
+
+  constructor(db: Kysely<Database>) {
+    this.db = db;
+  }
+
+  /**
+   * Record an event; resolves with it and its sequence number once stored. Events recorded by this
+   * process for one run are stored (and resolve) in the order they were recorded.
+   */
+  record(event: CodexEvent): Promise<CodexEvent> {
+    const previous = this.writes.get(event.runId) || Promise.resolve(event);
+    const write = previous
+      .then(() => this.insert(event))
+      .then(recorded => {
+        runEventBus.publish(recorded);
+        return recorded;
+      }, err => {
+        // Still delivered to live followers in this process, just without a place in the log
+        logger.error({ err, runId: event.runId }, 'Failed to persist run event');
+        runEventBus.publish(event);
+        return event;
+      });
+    this.writes.set(event.runId, write);
+
+    write.finally(() => {
+      if (this.writes.get(event.runId) === write) {
+        this.writes.delete(event.runId);
+      }
+    });
+
+    return write;
+  }
+
+  private async insert(event: CodexEvent): Promise<CodexEvent> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { rows } = await sql<{ payload: CodexEvent }>`
+          INSERT INTO run_events (run_id, seq, type, payload)
+          SELECT ${event.runId}::uuid, next.seq, ${event.type}::text, ${JSON.stringify(event)}::jsonb || jsonb_build_object('seq', next.seq)
+          FROM (SELECT coalesce(max(seq), 0) + 1 AS seq FROM run_events WHERE run_id = ${event.runId}) next
+          RETURNING payload
+        `.execute(this.db);
+        return rows[0].payload;
+      } catch (err: any) {
+        // Another process took the same number (primary key violation); take the next one
+        if (err.code !== '23505' || attempt >= SEQ_ATTEMPTS) throw err;
+      }
+    }
+  }
+
+  /**
+   * Recorded events for a run with a sequence greater than `afterSeq`, oldest first.
+   */
+  async history(runId: string, afterSeq = 0): Promise<CodexEvent[]> {
+    // Make sure everything already published has been written before reading
+    await this.writes.get(runId);
+
+    const rows = await this.db
+      .selectFrom('run_events')
+      .select('payload')
+      .where('run_id', '=', runId)
+      .where('seq', '>', afterSeq)
+      .orderBy('seq', 'asc')
+      .execute();
+
+    return rows.map(row => row.payload as CodexEvent);
+  }
+}
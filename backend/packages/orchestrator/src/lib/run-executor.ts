@@ -0,0 +1,360 @@
+import { Kysely } from 'kysely';
+import { CodexEvent, Database } from '@codex/shared';
+import { WorkspaceManager } from '@codex/workspace-manager';
+import { FastifyBaseLogger } from 'fastify';
+import { EvidenceBuilder } from '../background/evidence-builder';
+import { logger } from '../logger';
+import { metrics } from '../metrics';
+import { formatTraceparent, tracer } from '../tracing';
+import { artifactWorkerConfig } from './artifacts';
+import { recordAuditEvent } from './audit';
+import { RunEventStore } from './run-events';
+import { getWorkerBaseUrl } from './worker-client';
+import { readWorkerStream, WorkerResult } from './worker-stream';
+
+export interface RunRequest {
+  runId: string;
+  userId: string;
+  projectId: string;
+  text: string;
+  startTime: number;
+  requestId: string;
+}
+
+export interface RunWorkspace {
+  id: string;
+  container_id: string;
+  runtime_metadata: any | null;
+}
+
+export interface RunOutcome {
+  status: 'succeeded' | 'failed' | 'cancelled';
+  finalText?: string;
+  diff?: string;
+  error?: string;
+}
+
+export interface ExecuteRunOptions {
+  log: FastifyBaseLogger;
+  streaming: boolean;
+  // Called for every event as it is emitted (e.g. to write SSE frames)
+  onEvent?: (event: CodexEvent) => void;
+}
+
+/**
+ * Drives a single run against the workspace's codex-worker: relays worker events,
+ * records the outcome on the run, writes events.jsonl and triggers the evidence build.
+ * Callers are responsible for creating the run record and serializing runs per project.
+ */
+export class RunExecutor {
+  private db: Kysely<Database>;
+  private workspaceManager: WorkspaceManager;
+  private evidenceBuilder: EvidenceBuilder;
+  private runEventStore: RunEventStore;
+
+  constructor(db: Kysely<Database>, workspaceManager: WorkspaceManager, evidenceBuilder: EvidenceBuilder, runEventStore: RunEventStore) {
+    this.db = db;
+    this.workspaceManager = workspaceManager;
+    this.evidenceBuilder = evidenceBuilder;
+    this.runEventStore = runEventStore;
+  }
+
+  async execute(run: RunRequest, workspace: RunWorkspace, options: ExecuteRunOptions): Promise<RunOutcome> {
+    return tracer.withSpan(
+      'run.execute',
+      { runId: run.runId, projectId: run.projectId, streaming: options.streaming },
+      () => this.executeRun(run, workspace, options)
+    );
+  }
+
+  private async executeRun(run: RunRequest, workspace: RunWorkspace, options: ExecuteRunOptions): Promise<RunOutcome> {
+    const { log, streaming } = options;
+    const runEvents: CodexEvent[] = [];
+    // Settles once every event emitted so far is stored and delivered, in emission order
+    let recording = Promise.resolve();
+
+    const emit = (partial: any) => {
+      const stored = this.runEventStore.record({
+        ...partial,
+        ts: new Date().toISOString(),
+        runId: run.runId
+      } as CodexEvent);
+      recording = recording.then(() => stored).then(event => {
+        runEvents.push(event);
+        options.onEvent?.(event);
+      });
+    };
+
+    // Emit run-start
+    emit({ type: 'run-start' });
+    recordAuditEvent(this.db, { action: 'run.start', actorUserId: run.userId, projectId: run.projectId, workspaceId: workspace.id, runId: run.runId, requestId: run.requestId });
+
+    try {
+      const project = await this.db
+        .selectFrom('projects')
+        .select(['command_policy', 'test_config', 'artifact_config'])
+        .where('id', '=', run.projectId)
+        .executeTakeFirst();
+      // Omitted when the project has none, so the worker applies its default policy
+      const commandPolicy = project?.command_policy ?? undefined;
+      const testConfig = project?.test_config ?? undefined;
+      const artifactConfig = project?.artifact_config ? artifactWorkerConfig(project.artifact_config) : undefined;
+
+      const workerUrl = `${await getWorkerBaseUrl(this.workspaceManager, workspace.container_id, log)}/run`;
+
+      // Call worker in streaming mode and relay its events as they arrive
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), 10000); // 10s connect timeout
+
+      let response;
+      const stopWorkerTimer = metrics.startTimer('arp_worker_request_duration_seconds', { route: '/run' });
+      const requestSpan = tracer.startSpan('worker.request', { route: '/run' });
+      try {
+        // Retry logic for worker connection
+        for (let i = 0; i < 15; i++) {
+          try {
+            response = await fetch(workerUrl, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                'x-request-id': run.requestId,
+                'traceparent': formatTraceparent(requestSpan)
+              },
+              body: JSON.stringify({ text: run.text, runId: run.runId, stream: true, commandPolicy, testConfig, artifactConfig }),
+              signal: controller.signal
+            });
+            break;
+          } catch (e: any) {
+            if (i === 14) throw e;
+            if (e.name === 'AbortError') throw e;
+            await new Promise(r => setTimeout(r, 1000));
+          }
+        }
+      } catch (err) {
+        requestSpan.recordError(err);
+        throw err;
+      } finally {
+        clearTimeout(timeout);
+        requestSpan.end();
+        // Requests that never got a response (connect errors, timeouts) are observed too
+        stopWorkerTimer({ status: response ? response.status : 'error' });
+      }
+
+      if (!response) throw new Error('Failed to connect to worker');
+
+      if (!response.ok || !response.body) {
+        const errText = await response.text();
+        throw new Error(`Worker responded with ${response.status}: ${errText}`);
+      }
+
+      let result: WorkerResult | undefined;
+      let sequence = 0;
+      for await (const workerEvent of readWorkerStream(response.body)) {
+        switch (workerEvent.type) {
+          case 'token':
+            emit({ type: 'token', delta: workerEvent.delta, sequence: sequence++ });
+            break;
+          case 'reasoning':
+            emit({ type: 'reasoning', delta: workerEvent.delta });
+            break;
+          case 'tool-call': {
+            const { type, ...toolCall } = workerEvent;
+            emit({ type: 'tool-call', ...toolCall });
+            break;
+          }
+          case 'policy-violation': {
+            const { type, ...violation } = workerEvent;
+            emit({ type: 'policy-violation', ...violation });
+            recordAuditEvent(this.db, {
+              action: 'run.policy_violation',
+              outcome: 'failure',
+              actorUserId: run.userId,
+              projectId: run.projectId,
+              workspaceId: workspace.id,
+              runId: run.runId,
+              requestId: run.requestId,
+              details: { command: violation.command, reason: violation.reason, rule: violation.rule, source: violation.source }
+            });
+            break;
+          }
+          case 'test-result':
+            emit({ type: 'test-result', ...workerEvent.report });
+            break;
+          case 'result': {
+            const { type, spans, ...workerResult } = workerEvent;
+            tracer.export(spans || []);
+            result = workerResult;
+            break;
+          }
+          case 'error':
+            tracer.export(workerEvent.spans || []);
+            throw new Error(`Worker run failed: ${workerEvent.details || workerEvent.error}`);
+        }
+      }
+
+      if (!result) throw new Error('Worker stream ended without a result');
+      log.info({ msg: 'Worker response', result });
+
+      const finishedAt = new Date();
+      const duration = Date.now() - run.startTime;
+      const status = result.cancelled ? 'cancelled' : 'succeeded';
+      metrics.observe('arp_run_duration_seconds', duration / 1000, { status });
+
+      // Emit diff if present
+      if (result.diff) {
+        emit({ type: 'diff', diff: result.diff });
+      }
+
+      // Update Run Record (succeeded or cancelled)
+      // Merge evidence info into env_snapshot (assuming worker created them)
+      const evidenceInfo = {
+        evidencePath: `/workspace/evidence/${run.runId}`,
+        hasCommandLog: true,
+        hasOutputsManifest: true
+      };
+      const newSnapshot = {
+        ...(workspace.runtime_metadata as object || {}),
+        ...evidenceInfo
+      };
+
+      // Only while still running: a run failed as abandoned in the meantime keeps that outcome
+      const recorded = await this.db
+        .updateTable('runs')
+        .set({
+          status,
+          final_text: result.finalText,
+          diff: result.diff,
+          git_commit: result.gitCommit,
+          base_ref: result.baseRef || null,
+          input_tokens: result.usage?.inputTokens ?? null,
+          cached_input_tokens: result.usage?.cachedInputTokens ?? null,
+          output_tokens: result.usage?.outputTokens ?? null,
+          model: result.model ?? null,
+          test_output: result.testOutput ?? null,
+          env_snapshot: newSnapshot,
+          finished_at: finishedAt,
+          duration_ms: duration
+        })
+        .where('id', '=', run.runId)
+        .where('status', '=', 'running')
+        .executeTakeFirst();
+
+      if (Number(recorded.numUpdatedRows) === 0) {
+        const error = 'Run was closed out as interrupted before its result arrived';
+        log.warn({ msg: 'Discarding result of a run that is no longer running', runId: run.runId, status });
+        emit({ type: 'run-complete', status: 'failed', error });
+        await recording;
+        return { status: 'failed', error };
+      }
+
+      // Update workspace activity
+      const idleMinutes = parseFloat(process.env.WARM_IDLE_MINUTES || '20');
+      const idleExpiresAt = new Date(Date.now() + idleMinutes * 60 * 1000);
+
+      await this.db
+        .updateTable('workspaces')
+        .set({
+          thread_id: result.threadId,
+          last_active_at: new Date(),
+          idle_expires_at: idleExpiresAt
+        })
+        .where('id', '=', workspace.id)
+        .execute();
+
+      metrics.increment('arp_runs_total', { status: result.cancelled ? 'cancelled' : 'success', streaming });
+      if (streaming) {
+        metrics.increment('arp_streaming_runs_total');
+      }
+      log.info({
+        msg: 'Run completed',
+        userId: run.userId,
+        runId: run.runId,
+        status,
+        streaming
+      });
+
+      emit({ type: 'run-complete', status });
+      recordAuditEvent(this.db, { action: 'run.finish', actorUserId: run.userId, projectId: run.projectId, workspaceId: workspace.id, runId: run.runId, requestId: run.requestId, details: { status, durationMs: duration } });
+      await recording;
+      await this.finishEvidence(run, workspace, runEvents, log);
+
+      return { status, finalText: result.finalText, diff: result.diff };
+
+    } catch (workerError: any) {
+      // Handle worker failure or timeout
+      const finishedAt = new Date();
+      const duration = Date.now() - run.startTime;
+      metrics.observe('arp_run_duration_seconds', duration / 1000, { status: 'failed' });
+
+      await this.db
+        .updateTable('runs')
+        .set({
+          status: 'failed',
+          error_message: workerError.message,
+          finished_at: finishedAt,
+          duration_ms: duration
+        })
+        .where('id', '=', run.runId)
+        .where('status', '=', 'running')
+        .execute();
+
+      log.error(workerError);
+
+      emit({ type: 'run-complete', status: 'failed', error: workerError.message });
+      recordAuditEvent(this.db, {
+        action: 'run.finish',
+        outcome: 'failure',
+        actorUserId: run.userId,
+        projectId: run.projectId,
+        workspaceId: workspace.id,
+        runId: run.runId,
+        requestId: run.requestId,
+        details: { status: 'failed', durationMs: duration, error: workerError.message }
+      });
+      await recording;
+      await this.finishEvidence(run, workspace, runEvents, log);
+
+      return { status: 'failed', error: workerError.message };
+    }
+  }
+
+  /**
+   * Create the pending evidence record and kick off the bundle build in the background.
+   */
+  async triggerEvidenceBuild(runId: string, userId: string, projectId: string, workspaceId: string) {
+    try {
+      await this.db.insertInto('evidence_bundles')
+        .values({
+          run_id: runId,
+          user_id: userId,
+          project_id: projectId,
+          workspace_id: workspaceId,
+          status: 'pending'
+        })
+        .onConflict((oc) => oc.column('run_id').doNothing())
+        .execute();
+
+      // Fire and forget
+      this.evidenceBuilder.buildBundle(runId).catch(err => {
+        logger.error({ err, runId }, 'Background evidence build failed');
+      });
+    } catch (error) {
+      logger.error({ error, runId }, 'Failed to trigger evidence build');
+    }
+  }
+
+  private async finishEvidence(run: RunRequest, workspace: RunWorkspace, runEvents: CodexEvent[], log: FastifyBaseLogger) {
+    // Write events log
+    try {
+      const eventsNdjson = runEvents.map(e => JSON.stringify(e)).join('\n');
+      await tracer.withSpan('workspace.putFile', { runId: run.runId }, () =>
+        this.workspaceManager.putFile(workspace.container_id, `/workspace/evidence/${run.runId}/events.jsonl`, eventsNdjson)
+      );
+    } catch (err) {
+      log.error({ err }, 'Failed to write events.jsonl');
+    }
+
+    // Trigger Evidence Build (AFTER events are written)
+    await this.triggerEvidenceBuild(run.runId, run.userId, run.projectId, workspace.id);
+  }
+}
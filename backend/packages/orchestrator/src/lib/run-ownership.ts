@@ -0,0 +1,96 @@
+import { Kysely } from 'kysely';
+import { Database } from '@codex/shared';
+import { randomUUID } from 'crypto';
+import { logger } from '../logger';
+import { RunEventStore } from './run-events';
+
+// Identifies this process among the orchestrator replicas sharing the database
+export const INSTANCE_ID = process.env.ORCHESTRATOR_INSTANCE_ID || randomUUID();
+
+const RUN_HEARTBEAT_INTERVAL_MS = parseInt(process.env.RUN_HEARTBEAT_INTERVAL_MS || '15000', 10);
+// A running run whose owner hasn't heartbeated for this long is considered abandoned
+const RUN_HEARTBEAT_TIMEOUT_MS = parseInt(process.env.RUN_HEARTBEAT_TIMEOUT_MS || '90000', 10);
+
+/**
+ * Columns marking a run as executed by this instance; set whenever a run becomes `running`.
+ */
+export function runOwnership() {
+  return { owner_instance: INSTANCE_ID, heartbeat_at: new Date() };
+}
+
+/**
+ * Whether a run of the project is executing. Runs only become `running` under the project's lock,
+ * so one still running when the lock is taken belongs to an orchestrator that stopped, until it is failed.
+ */
+export async function projectHasRunningRun(db: Kysely<Database>, projectId: string): Promise<boolean> {
+  const running = await db
+    .selectFrom('runs')
+    .select('id')
+    .where('project_id', '=', projectId)
+    .where('status', '=', 'running')
+    .limit(1)
+    .executeTakeFirst();
+  return running !== undefined;
+}
+
+/**
+ * Every interval: refresh the heartbeat of the runs this instance executes, then fail the running
+ * runs of other instances (or of a previous process) whose heartbeat has expired.
+ */
+export function startRunHeartbeat(db: Kysely<Database>, runEventStore: RunEventStore) {
+  logger.info({ msg: 'Starting run heartbeat', instanceId: INSTANCE_ID, RUN_HEARTBEAT_INTERVAL_MS, RUN_HEARTBEAT_TIMEOUT_MS });
+
+  const tick = async () => {
+    try {
+      await db
+        .updateTable('runs')
+        .set({ heartbeat_at: new Date() })
+        .where('status', '=', 'running')
+        .where('owner_instance', '=', INSTANCE_ID)
+        .execute();
+      await failStaleRuns(db, runEventStore);
+    } catch (err) {
+      logger.error({ err }, 'Error in run heartbeat');
+    }
+  };
+
+  setInterval(tick, RUN_HEARTBEAT_INTERVAL_MS);
+  tick();
+}
+
+export async function failStaleRuns(db: Kysely<Database>, runEventStore: RunEventStore) {
+  const staleBefore = new Date(Date.now() - RUN_HEARTBEAT_TIMEOUT_MS);
+  const error = 'Run interrupted: the orchestrator executing it stopped responding';
+  const finishedAt = new Date();
+  const stale = await db
+    .updateTable('runs')
+    .set({
+      status: 'failed',
+      error_message: error,
+      finished_at: finishedAt
+    })
+    .where('status', '=', 'running')
+    .where((eb) => eb.or([
+      eb('owner_instance', 'is', null),
+      eb('owner_instance', '!=', INSTANCE_ID)
+    ]))
+    // Runs from before heartbeats were recorded only have their start time
+    .where((eb) => eb.or([
+      eb('heartbeat_at', '<', staleBefore),
+      eb.and([eb('heartbeat_at', 'is', null), eb('started_at', '<', staleBefore)])
+    ]))
+    .returning(['id', 'owner_instance'])
+    .execute();
+
+  if (stale.length > 0) {
+    logger.warn({ msg: 'Marked abandoned runs as failed', count: stale.length, runIds: stale.map(run => run.id) });
+  }
+  // Ends the event stream of followers on every replica
+  await Promise.all(stale.map(run => runEventStore.record({
+    type: 'run-complete',
+    ts: finishedAt.toISOString(),
+    runId: run.id,
+    status: 'failed',
+    error
+  })));
+}
@@ -0,0 +1,19 @@
+import path from 'path';
+import { z } from 'zod';
+
+/**
+ * Per-project test command the worker runs after each turn. Its output is parsed as TAP, or as
+ * JUnit XML read from `reportPath` (or stdout), and reported as a `test-result` event.
+ */
+export const testConfigSchema = z.object({
+  command: z.string().min(1).max(4096),
+  format: z.enum(['tap', 'junit']),
+  // Relative to the worker's working directory (the project's subdirectory, if any)
+  reportPath: z.string().min(1).refine((file) => {
+    const normalized = path.posix.normalize(file);
+    return !path.posix.isAbsolute(normalized) && normalized !== '..' && !normalized.startsWith('../');
+  }, { message: 'reportPath must be a relative path inside the repository' }).optional(),
+  timeoutSeconds: z.number().int().positive().max(3600).optional(),
+}).strict();
+
+export type TestConfig = z.infer<typeof testConfigSchema>;
@@ -0,0 +1,131 @@
+import { Kysely, sql } from 'kysely';
+import { z } from 'zod';
+import { Database } from '@codex/shared';
+import { logger } from '../logger';
+
+// USD per million tokens. `input` applies to uncached input tokens only.
+const tokenPriceSchema = z.object({
+  input: z.number().nonnegative(),
+  cachedInput: z.number().nonnegative().optional(),
+  output: z.number().nonnegative(),
+});
+
+export type TokenPrice = z.infer<typeof tokenPriceSchema>;
+
+// `default` prices runs whose model has no entry of its own (including runs on the SDK default model)
+const DEFAULT_PRICES: Record<string, TokenPrice> = {
+  default: { input: 1.25, cachedInput: 0.125, output: 10 },
+};
+
+export const USAGE_DIMENSIONS = ['user', 'project', 'day'] as const;
+export type UsageDimension = typeof USAGE_DIMENSIONS[number];
+
+export interface UsageFilter {
+  from: Date;
+  to: Date;
+  userId?: string;
+  projectId?: string;
+  groupBy: UsageDimension[];
+}
+
+export interface UsageRow {
+  userId?: string;
+  projectId?: string;
+  day?: string; // YYYY-MM-DD, UTC
+  runs: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+}
+
+/**
+ * Price table from TOKEN_PRICES (JSON object keyed by model), layered over the built-in defaults.
+ */
+export function getPriceTable(): Record<string, TokenPrice> {
+  if (!process.env.TOKEN_PRICES) {
+    return DEFAULT_PRICES;
+  }
+
+  try {
+    const parsed = z.record(tokenPriceSchema).parse(JSON.parse(process.env.TOKEN_PRICES));
+    return { ...DEFAULT_PRICES, ...parsed };
+  } catch (err) {
+    logger.warn({ err }, 'Invalid TOKEN_PRICES, using default prices');
+    return DEFAULT_PRICES;
+  }
+}
+
+export function estimateCost(prices: Record<string, TokenPrice>, model: string | null, inputTokens: number, cachedInputTokens: number, outputTokens: number): number {
+  const price = (model && prices[model]) || prices.default;
+  const uncached = Math.max(inputTokens - cachedInputTokens, 0);
+  const cost = uncached * price.input + cachedInputTokens * (price.cachedInput ?? price.input) + outputTokens * price.output;
+  return cost / 1_000_000;
+}
+
+/**
+ * Token totals and estimated cost of runs started in [from, to), grouped by the requested dimensions.
+ * Runs are priced per model before grouping, so mixed-model groups are costed correctly.
+ */
+export async function aggregateUsage(db: Kysely<Database>, filter: UsageFilter): Promise<{ rows: UsageRow[]; totals: UsageRow }> {
+  const day = sql<string>`to_char(date_trunc('day', runs.started_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD')`;
+
+  let query = db
+    .selectFrom('runs')
+    .select([
+      'user_id',
+      'project_id',
+      'model',
+      day.as('day'),
+      db.fn.countAll<string>().as('runs'),
+      sql<string>`coalesce(sum(input_tokens), 0)`.as('input_tokens'),
+      sql<string>`coalesce(sum(cached_input_tokens), 0)`.as('cached_input_tokens'),
+      sql<string>`coalesce(sum(output_tokens), 0)`.as('output_tokens'),
+    ])
+    .where('started_at', '>=', filter.from)
+    .where('started_at', '<', filter.to)
+    .groupBy(['user_id', 'project_id', 'model'])
+    .groupBy(day);
+
+  if (filter.userId) {
+    query = query.where('user_id', '=', filter.userId);
+  }
+  if (filter.projectId) {
+    query = query.where('project_id', '=', filter.projectId);
+  }
+
+  const prices = getPriceTable();
+  const groups = new Map<string, UsageRow>();
+  const totals: UsageRow = { runs: 0, inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, estimatedCostUsd: 0 };
+
+  for (const row of await query.execute()) {
+    const inputTokens = Number(row.input_tokens);
+    const cachedInputTokens = Number(row.cached_input_tokens);
+    const outputTokens = Number(row.output_tokens);
+    const runs = Number(row.runs);
+    const cost = estimateCost(prices, row.model, inputTokens, cachedInputTokens, outputTokens);
+
+    const dimensions = {
+      ...(filter.groupBy.includes('user') ? { userId: row.user_id } : {}),
+      ...(filter.groupBy.includes('project') ? { projectId: row.project_id } : {}),
+      ...(filter.groupBy.includes('day') ? { day: row.day } : {}),
+    };
+    const key = JSON.stringify(dimensions);
+    const group = groups.get(key) || { ...dimensions, runs: 0, inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, estimatedCostUsd: 0 };
+
+    for (const target of [group, totals]) {
+      target.runs += runs;
+      target.inputTokens += inputTokens;
+      target.cachedInputTokens += cachedInputTokens;
+      target.outputTokens += outputTokens;
+      target.estimatedCostUsd += cost;
+    }
+    groups.set(key, group);
+  }
+
+  const round = (row: UsageRow): UsageRow => ({ ...row, estimatedCostUsd: Math.round(row.estimatedCostUsd * 1e6) / 1e6 });
+  const rows = Array.from(groups.values()).map(round).sort((a, b) =>
+    (a.day || '').localeCompare(b.day || '') || (a.userId || '').localeCompare(b.userId || '') || (a.projectId || '').localeCompare(b.projectId || '')
+  );
+  return { rows, totals: round(totals) };
+}
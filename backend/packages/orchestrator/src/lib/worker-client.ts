@@ -0,0 +1,73 @@
+import { WorkspaceManager } from '@codex/workspace-manager';
+import { FastifyBaseLogger } from 'fastify';
+import { metrics } from '../metrics';
+import { tracer } from '../tracing';
+
+/**
+ * Whether the orchestrator runs outside Docker (local development) and reaches workers through
+ * their published ports rather than on a Docker network.
+ */
+export function usesPublishedWorkerPorts(): boolean {
+  // We use POSTGRES_URL as a heuristic: if DB is localhost, we are local.
+  const pgUrl = process.env.POSTGRES_URL || '';
+  return pgUrl.includes('localhost') || pgUrl.includes('127.0.0.1') || process.env.USE_LOCALHOST_WORKER === 'true';
+}
+
+/**
+ * Resolve the base URL of the codex-worker running inside a workspace container.
+ */
+export async function getWorkerBaseUrl(workspaceManager: WorkspaceManager, containerId: string, log: FastifyBaseLogger): Promise<string> {
+  // Detect if running locally (not in the same docker network as worker)
+  if (usesPublishedWorkerPorts()) {
+    const port = await workspaceManager.getContainerHostPort(containerId, 7000);
+    const baseUrl = `http://127.0.0.1:${port}`;
+    log.info({ msg: 'Detected local execution', port, baseUrl });
+    return baseUrl;
+  }
+
+  const ip = await workspaceManager.getContainerIp(containerId);
+  const baseUrl = `http://${ip}:7000`;
+  log.info({ msg: 'Detected container execution', ip, baseUrl });
+  return baseUrl;
+}
+
+/**
+ * POST a JSON body to a codex-worker route and return the parsed response.
+ * Non-2xx responses are thrown as errors carrying the worker's status code.
+ */
+export async function callWorker<T>(
+  workspaceManager: WorkspaceManager,
+  containerId: string,
+  route: string,
+  body: unknown,
+  log: FastifyBaseLogger,
+  requestId: string
+): Promise<T> {
+  const baseUrl = await getWorkerBaseUrl(workspaceManager, containerId, log);
+  // Label by route template so run ids don't explode the series count
+  const routeTemplate = route.replace(/^\/runs\/[^/]+/, '/runs/:runId');
+  const stopTimer = metrics.startTimer('arp_worker_request_duration_seconds', { route: routeTemplate });
+  const response = await tracer.withSpan('worker.call', { route: routeTemplate }, async (span) => {
+    const res = await fetch(`${baseUrl}${route}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-request-id': requestId,
+        'traceparent': tracer.traceparent()!
+      },
+      body: JSON.stringify(body ?? {})
+    });
+    span.setAttributes({ 'http.status_code': res.status });
+    return res;
+  });
+  stopTimer({ status: response.status });
+
+  if (!response.ok) {
+    const errText = await response.text();
+    const err = new Error(`Worker responded with ${response.status}: ${errText}`);
+    (err as any).status = response.status;
+    throw err;
+  }
+
+  return (await response.json()) as T;
+}
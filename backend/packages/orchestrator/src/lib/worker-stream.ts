@@ -0,0 +1,79 @@
+import { TestReport } from '@codex/shared';
+import { SpanData } from '../tracing';
+
+export interface WorkerResult {
+  finalText: string;
+  diff: string;
+  threadId: string;
+  gitCommit?: string;
+  baseRef?: string;
+  // Set when the turn was aborted via the worker's cancel route
+  cancelled?: boolean;
+  // Zero in mock mode; missing from workers that predate usage reporting
+  usage?: { inputTokens: number; cachedInputTokens: number; outputTokens: number };
+  model?: string | null;
+  // Present when the project has a test command and the turn was not cancelled
+  testReport?: TestReport;
+  testOutput?: string;
+  // Spans the worker recorded for this run, exported by the orchestrator
+  spans?: SpanData[];
+}
+
+// Lines written by the codex-worker's /run route when called with `stream: true`
+export type WorkerStreamEvent =
+  | { type: 'reasoning'; delta: string }
+  | { type: 'token'; delta: string }
+  | {
+      type: 'tool-call';
+      callId: string;
+      tool: string;
+      status: 'started' | 'completed' | 'failed';
+      command?: string;
+      exitCode?: number;
+      output?: string;
+    }
+  | {
+      type: 'policy-violation';
+      command: string;
+      argv: string[][];
+      reason: string;
+      rule?: number;
+      network: boolean;
+      source: 'agent' | 'sdk' | 'test';
+    }
+  | { type: 'test-result'; report: TestReport }
+  | ({ type: 'result' } & WorkerResult)
+  | { type: 'error'; error: string; details?: string; spans?: SpanData[] };
+
+/**
+ * Parse an NDJSON response body from the worker, yielding each event as soon as its line is complete.
+ */
+export async function* readWorkerStream(body: ReadableStream<Uint8Array>): AsyncGenerator<WorkerStreamEvent> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line.length > 0) {
+          yield JSON.parse(line) as WorkerStreamEvent;
+        }
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim().length > 0) {
+      yield JSON.parse(buffer) as WorkerStreamEvent;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,56 @@
+import { Kysely, Selectable } from 'kysely';
+import { Database, RunsTable } from '@codex/shared';
+import { requireRunRole } from './project-access';
+
+export interface RunWorkspaceTarget {
+  run: Selectable<RunsTable>;
+  workspace: { id: string; container_id: string };
+}
+
+/**
+ * Load a finished run, which the user must be able to edit, together with its warm workspace, for
+ * operations that act on the workspace's working tree. Throws `{ status, message }` when that is not possible.
+ */
+export async function loadRunWorkspace(db: Kysely<Database>, runId: string, userId: string): Promise<RunWorkspaceTarget> {
+  await requireRunRole(db, runId, userId, 'editor');
+
+  const run = await db
+    .selectFrom('runs')
+    .selectAll()
+    .where('id', '=', runId)
+    .executeTakeFirstOrThrow();
+
+  if (run.status === 'queued' || run.status === 'running') {
+    throw { status: 409, message: `Run is still ${run.status}` };
+  }
+
+  const workspace = await db
+    .selectFrom('workspaces')
+    .select(['id', 'container_id'])
+    .where('id', '=', run.workspace_id)
+    .where('state', '=', 'warm')
+    .executeTakeFirst();
+
+  if (!workspace || !workspace.container_id) {
+    throw { status: 409, message: 'Workspace for run is not warm' };
+  }
+
+  return { run, workspace: { id: workspace.id, container_id: workspace.container_id } };
+}
+
+/**
+ * Whether `runId` is the most recently started finished run of the workspace, i.e. no other run
+ * has touched the working tree since.
+ */
+export async function isLatestRun(db: Kysely<Database>, workspaceId: string, runId: string): Promise<boolean> {
+  const latest = await db
+    .selectFrom('runs')
+    .select('id')
+    .where('workspace_id', '=', workspaceId)
+    .where('status', 'not in', ['queued', 'running'])
+    .orderBy('started_at', 'desc')
+    .limit(1)
+    .executeTakeFirst();
+
+  return latest?.id === runId;
+}
@@ -0,0 +1,52 @@
+import { Kysely } from 'kysely';
+import { Database } from '@codex/shared';
+
+const DEFAULT_MAX_WARM_WORKSPACES = 1;
+
+export interface EvictionCandidate {
+  id: string;
+  project_id: string;
+  container_id: string | null;
+  last_active_at: Date;
+}
+
+/**
+ * Number of warm workspaces a user may hold at once.
+ * An admin-set per-user override wins over MAX_WARM_WORKSPACES_PER_USER.
+ */
+export async function getWarmWorkspaceLimit(db: Kysely<Database>, userId: string): Promise<number> {
+  const user = await db
+    .selectFrom('users')
+    .select('max_warm_workspaces')
+    .where('id', '=', userId)
+    .executeTakeFirst();
+
+  if (user && user.max_warm_workspaces !== null) {
+    return user.max_warm_workspaces;
+  }
+  return parseInt(process.env.MAX_WARM_WORKSPACES_PER_USER || String(DEFAULT_MAX_WARM_WORKSPACES), 10);
+}
+
+/**
+ * Pick the least recently active warm workspaces that must be stopped
+ * so that warming `projectId` keeps the user within `limit`.
+ */
+export async function selectWorkspacesToEvict(
+  db: Kysely<Database>,
+  userId: string,
+  projectId: string,
+  limit: number
+): Promise<EvictionCandidate[]> {
+  const otherWarm = await db
+    .selectFrom('workspaces')
+    .select(['id', 'project_id', 'container_id', 'last_active_at'])
+    .where('state', '=', 'warm')
+    .where('user_id', '=', userId)
+    .where('project_id', '!=', projectId)
+    .orderBy('last_active_at', 'asc')
+    .execute();
+
+  // The workspace being opened takes one slot
+  const excess = otherWarm.length - Math.max(limit - 1, 0);
+  return excess > 0 ? otherWarm.slice(0, excess) : [];
+}
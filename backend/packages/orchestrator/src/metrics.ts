@@ -1,36 +1,198 @@
 type MetricLabels = Record<string, string | number | boolean>;
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface MetricDefinition {
+  type: MetricType;
+  help: string;
+  buckets?: number[];
+}
+
+interface HistogramSeries {
+  name: string;
+  labels: MetricLabels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+// Seconds; covers sub-second worker calls up to multi-minute clones and runs
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+// HELP/TYPE metadata for every metric the orchestrator records
+const DEFINITIONS: Record<string, MetricDefinition> = {
+  errors: { type: 'counter', help: 'Unhandled request errors.' },
+  cold_resumes: { type: 'counter', help: 'Workspaces opened from a cold or new state.' },
+  arp_runs_total: { type: 'counter', help: 'Finished runs by status and streaming mode.' },
+  arp_streaming_runs_total: { type: 'counter', help: 'Finished runs that streamed their events.' },
+  arp_runs_queued_total: { type: 'counter', help: 'Runs accepted into the durable run queue.' },
+  arp_quota_exceeded_total: { type: 'counter', help: 'Requests rejected because a quota was exceeded.' },
+  arp_workspace_evictions_total: { type: 'counter', help: 'Warm workspaces stopped to make room for another.' },
+  arp_workspace_gc_total: { type: 'counter', help: 'Cold workspace volumes deleted by GC.' },
+  arp_evidence_gc_total: { type: 'counter', help: 'Evidence bundles deleted by GC.' },
+  arp_runs_published_total: { type: 'counter', help: 'Runs pushed to a branch, by git host adapter.' },
+  arp_workspace_operations_total: { type: 'counter', help: 'Accept, discard and revert operations on workspaces.' },
+  arp_egress_blocked_total: { type: 'counter', help: 'Outbound connections refused by the egress proxy.' },
+  arp_warm_workspaces: { type: 'gauge', help: 'Workspaces currently warm.' },
+  arp_queued_runs: { type: 'gauge', help: 'Runs waiting in the run queue.' },
+  arp_pending_evidence_bundles: { type: 'gauge', help: 'Evidence bundles not yet built.' },
+  arp_run_duration_seconds: { type: 'histogram', help: 'Wall-clock duration of runs from start to completion.' },
+  arp_worker_request_duration_seconds: { type: 'histogram', help: 'Latency of requests to codex-workers until response headers.' },
+  arp_workspace_open_duration_seconds: { type: 'histogram', help: 'Time to bring a workspace from cold to warm.' },
+  arp_workspace_clone_duration_seconds: { type: 'histogram', help: 'Time spent cloning the repository into a workspace.' },
+  arp_evidence_build_duration_seconds: { type: 'histogram', help: 'Time to build an evidence bundle.' }
+};
+
+function escapeLabelValue(value: string | number | boolean): string {
+  return String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const sortedKeys = Object.keys(labels).sort();
+  if (sortedKeys.length === 0) {
+    return '';
+  }
+  return `{${sortedKeys.map(k => `${k}="${escapeLabelValue(labels[k])}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
 
 class Metrics {
   private counters: Map<string, number> = new Map();
+  private gauges: Map<string, number> = new Map();
+  private histograms: Map<string, HistogramSeries> = new Map();
+  // Series keys grouped by metric name, for rendering
+  private series: Map<string, Set<string>> = new Map();
+  private collectors: Array<() => Promise<void>> = [];
 
   private getMetricKey(name: string, labels: MetricLabels = {}): string {
-    const sortedKeys = Object.keys(labels).sort();
-    if (sortedKeys.length === 0) {
-      return name;
+    return `${name}${formatLabels(labels)}`;
+  }
+
+  private track(name: string, key: string) {
+    let keys = this.series.get(name);
+    if (!keys) {
+      keys = new Set();
+      this.series.set(name, keys);
     }
-    const labelString = sortedKeys.map(k => `${k}="${labels[k]}"`).join(',');
-    return `${name}{${labelString}}`;
+    keys.add(key);
   }
 
-  increment(name: string, labels: MetricLabels = {}) {
+  increment(name: string, labels: MetricLabels = {}, value = 1) {
     const key = this.getMetricKey(name, labels);
     const current = this.counters.get(key) || 0;
-    this.counters.set(key, current + 1);
+    this.counters.set(key, current + value);
+    this.track(name, key);
   }
 
+  set(name: string, value: number, labels: MetricLabels = {}) {
+    const key = this.getMetricKey(name, labels);
+    this.gauges.set(key, value);
+    this.track(name, key);
+  }
+
+  observe(name: string, value: number, labels: MetricLabels = {}) {
+    const key = this.getMetricKey(name, labels);
+    const buckets = DEFINITIONS[name]?.buckets || DEFAULT_BUCKETS;
+    let histogram = this.histograms.get(key);
+    if (!histogram) {
+      histogram = { name, labels, bucketCounts: buckets.map(() => 0), sum: 0, count: 0 };
+      this.histograms.set(key, histogram);
+    }
+    buckets.forEach((bound, i) => {
+      if (value <= bound) histogram!.bucketCounts[i]++;
+    });
+    histogram.sum += value;
+    histogram.count++;
+    this.track(name, key);
+  }
+
+  /**
+   * Start a timer; the returned function records the elapsed seconds in a histogram.
+   */
+  startTimer(name: string, labels: MetricLabels = {}): (extraLabels?: MetricLabels) => number {
+    const start = process.hrtime.bigint();
+    return (extraLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(name, seconds, { ...labels, ...extraLabels });
+      return seconds;
+    };
+  }
+
+  /**
+   * Register a callback that refreshes gauges right before metrics are read.
+   */
+  addCollector(collector: () => Promise<void>) {
+    this.collectors.push(collector);
+  }
+
+  async collect() {
+    await Promise.all(this.collectors.map(collector => collector()));
+  }
+
+  /**
+   * Flat `name{labels}: value` object, the original JSON shape of /metrics.
+   * Histograms contribute their `_sum` and `_count` series.
+   */
   getMetrics() {
-    // Format for Prometheus text exposition format
-    // Although the original code returned a simple object, the requirements
-    // imply we might want proper prometheus formatting or at least structured return.
-    // However, the original code returned { ...this.counts } which was Record<string, number>.
-    // To maintain backward compatibility with any simple JSON viewers while enabling Prometheus-style structure:
-    
     const result: Record<string, number> = {};
     for (const [key, value] of this.counters.entries()) {
         result[key] = value;
     }
+    for (const [key, value] of this.gauges.entries()) {
+        result[key] = value;
+    }
+    for (const histogram of this.histograms.values()) {
+        const labels = formatLabels(histogram.labels);
+        result[`${histogram.name}_sum${labels}`] = histogram.sum;
+        result[`${histogram.name}_count${labels}`] = histogram.count;
+    }
     return result;
   }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format (version 0.0.4).
+   */
+  renderPrometheus(): string {
+    const lines: string[] = [];
+    const names = Array.from(this.series.keys()).sort();
+
+    for (const name of names) {
+      // Metrics without a definition still get (generic) metadata
+      const definition = DEFINITIONS[name] || { type: this.inferType(name), help: name };
+      lines.push(`# HELP ${name} ${definition.help}`);
+      lines.push(`# TYPE ${name} ${definition.type}`);
+
+      for (const key of Array.from(this.series.get(name)!).sort()) {
+        if (this.counters.has(key)) {
+          lines.push(`${key} ${formatValue(this.counters.get(key)!)}`);
+        } else if (this.gauges.has(key)) {
+          lines.push(`${key} ${formatValue(this.gauges.get(key)!)}`);
+        } else {
+          const histogram = this.histograms.get(key)!;
+          const buckets = definition.buckets || DEFAULT_BUCKETS;
+          buckets.forEach((bound, i) => {
+            lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: bound })} ${histogram.bucketCounts[i]}`);
+          });
+          lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: '+Inf' })} ${histogram.count}`);
+          lines.push(`${name}_sum${formatLabels(histogram.labels)} ${formatValue(histogram.sum)}`);
+          lines.push(`${name}_count${formatLabels(histogram.labels)} ${histogram.count}`);
+        }
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  private inferType(name: string): MetricType {
+    const key = this.series.get(name)!.values().next().value as string;
+    if (this.histograms.has(key)) return 'histogram';
+    if (this.gauges.has(key)) return 'gauge';
+    return 'counter';
+  }
 }
 
-export const metrics = new Metrics();
\ No newline at end of file
+export const metrics = new Metrics();
@@ -1,13 +1,20 @@
 import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import { Kysely } from 'kysely';
 import { Database } from '@codex/shared';
-import { createHash } from 'crypto';
+import { recordAuditEvent } from '../lib/audit';
+import { ApiKeyScope, effectiveScope, hashApiKey, hasScope, requiredScope } from '../lib/api-keys';
+
+// last_used_at is only written when it is older than this, to keep auth from writing on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
 
 declare module 'fastify' {
   interface FastifyRequest {
     user: {
       id: string;
+      // True only for admins authenticated with an admin-scoped key
       is_admin: boolean;
+      keyId: string;
+      scope: ApiKeyScope;
     };
   }
 }
@@ -22,31 +29,70 @@ export const authCheck = async (request: FastifyRequest, reply: FastifyReply, db
       return;
     }
 
+    const reject = (status: number, error: string, reason: string, actor: { userId?: string; keyId?: string } = {}) => {
+      recordAuditEvent(db, {
+        action: 'auth.failure',
+        outcome: 'failure',
+        actorUserId: actor.userId,
+        actorKeyId: actor.keyId,
+        ip: request.ip,
+        requestId: request.id,
+        details: { reason, method: request.method, url: request.url }
+      });
+      return reply.status(status).send({ error });
+    };
+
     const apiKey = request.headers['x-api-key'];
 
     if (!apiKey || typeof apiKey !== 'string') {
-      return reply.status(401).send({ error: 'Unauthorized: Missing API Key' });
+      return reject(401, 'Unauthorized: Missing API Key', 'missing_key');
     }
 
-    const hash = createHash('sha256').update(apiKey).digest('hex');
+    const hash = hashApiKey(apiKey);
 
     try {
       const result = await db
         .selectFrom('api_keys')
         .innerJoin('users', 'users.id', 'api_keys.user_id')
-        .select(['users.id', 'users.is_admin', 'api_keys.revoked_at'])
+        .select(['users.id', 'users.is_admin', 'users.disabled_at', 'api_keys.id as key_id', 'api_keys.revoked_at',
+          'api_keys.expires_at', 'api_keys.scopes', 'api_keys.last_used_at'])
         .where('api_keys.token_hash', '=', hash)
         .executeTakeFirst();
 
-      if (!result || result.revoked_at) {
-        return reply.status(401).send({ error: 'Unauthorized: Invalid API Key' });
+      if (!result) {
+        return reject(401, 'Unauthorized: Invalid API Key', 'unknown_key');
+      }
+      const actor = { userId: result.id, keyId: result.key_id };
+      if (result.revoked_at) {
+        return reject(401, 'Unauthorized: Invalid API Key', 'revoked_key', actor);
+      }
+      if (result.expires_at && result.expires_at <= new Date()) {
+        return reject(401, 'Unauthorized: API Key expired', 'expired_key', actor);
+      }
+      if (result.disabled_at) {
+        return reject(401, 'Unauthorized: User disabled', 'user_disabled', actor);
       }
 
+      const scope = effectiveScope(result.scopes, result.is_admin);
       request.user = {
         id: result.id,
-        is_admin: result.is_admin
+        is_admin: scope === 'admin',
+        keyId: result.key_id,
+        scope
       };
 
+      if (!result.last_used_at || Date.now() - result.last_used_at.getTime() > LAST_USED_RESOLUTION_MS) {
+        db.updateTable('api_keys')
+          .set({ last_used_at: new Date() })
+          .where('id', '=', result.key_id)
+          .execute()
+          .catch(err => request.log.warn({ err }, 'Failed to record API key use'));
+      }
+
+      const required = requiredScope(request.method, request.routeOptions.url || request.url);
+      if (!hasScope(scope, required)) {
+        return reject(403, `Forbidden: API key lacks the ${required} scope`, 'insufficient_scope', actor);
+      }
     } catch (err) {
       request.log.error({ err }, 'Auth check failed');
       return reply.status(500).send({ error: 'Internal Server Error' });
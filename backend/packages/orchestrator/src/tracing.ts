@@ -0,0 +1,259 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+type SpanAttributes = Record<string, string | number | boolean>;
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+/**
+ * A finished span, as exported. Also the shape codex-workers report their own spans in.
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  service: string;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: SpanAttributes;
+  status: 'ok' | 'error';
+  error?: string;
+}
+
+const SERVICE_NAME = process.env.OTEL_SERVICE_NAME || 'orchestrator';
+const FLUSH_INTERVAL_MS = 5000;
+const MAX_BATCH_SIZE = 100;
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+// Wall-clock anchor for the monotonic clock, so span timestamps are precise and ordered
+const CLOCK_OFFSET_NS = BigInt(Date.now()) * BigInt(1e6) - process.hrtime.bigint();
+
+function nowUnixNano(): bigint {
+  return process.hrtime.bigint() + CLOCK_OFFSET_NS;
+}
+
+/**
+ * Parse a W3C `traceparent` header. Returns null for missing or malformed values.
+ */
+export function parseTraceparent(header: string | string[] | undefined): SpanContext | null {
+  if (typeof header !== 'string') return null;
+  const match = header.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+  return { traceId: match[1], spanId: match[2] };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-01`;
+}
+
+export class Span implements SpanContext {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly name: string;
+  private startTime: bigint;
+  private attributes: SpanAttributes;
+  private error?: string;
+  private ended = false;
+
+  constructor(name: string, parent: SpanContext | null, attributes: SpanAttributes = {}) {
+    this.name = name;
+    this.traceId = parent ? parent.traceId : randomBytes(16).toString('hex');
+    this.spanId = randomBytes(8).toString('hex');
+    this.parentSpanId = parent?.spanId;
+    this.startTime = nowUnixNano();
+    this.attributes = { ...attributes };
+  }
+
+  setAttributes(attributes: SpanAttributes) {
+    Object.assign(this.attributes, attributes);
+  }
+
+  recordError(err: unknown) {
+    this.error = err instanceof Error ? err.message : String(err);
+  }
+
+  end() {
+    if (this.ended) return;
+    this.ended = true;
+    tracer.export([{
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      service: SERVICE_NAME,
+      startTimeUnixNano: this.startTime.toString(),
+      endTimeUnixNano: nowUnixNano().toString(),
+      attributes: this.attributes,
+      status: this.error ? 'error' : 'ok',
+      error: this.error
+    }]);
+  }
+}
+
+interface SpanExporter {
+  export(spans: SpanData[]): Promise<void>;
+}
+
+// OTLP/HTTP with the JSON encoding, e.g. OTEL_EXPORTER_OTLP_ENDPOINT=http://otel-collector:4318
+class OtlpHttpExporter implements SpanExporter {
+  private url: string;
+
+  constructor(endpoint: string) {
+    this.url = `${endpoint.replace(/\/$/, '')}/v1/traces`;
+  }
+
+  async export(spans: SpanData[]) {
+    const byService = new Map<string, SpanData[]>();
+    for (const span of spans) {
+      byService.set(span.service, [...(byService.get(span.service) || []), span]);
+    }
+
+    const body = {
+      resourceSpans: Array.from(byService.entries()).map(([service, serviceSpans]) => ({
+        resource: { attributes: [{ key: 'service.name', value: { stringValue: service } }] },
+        scopeSpans: [{
+          scope: { name: 'arp-runtime' },
+          spans: serviceSpans.map(span => ({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId || '',
+            name: span.name,
+            kind: 1, // SPAN_KIND_INTERNAL
+            startTimeUnixNano: span.startTimeUnixNano,
+            endTimeUnixNano: span.endTimeUnixNano,
+            attributes: Object.entries(span.attributes).map(([key, value]) => ({
+              key,
+              value: typeof value === 'number'
+                ? (Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value })
+                : typeof value === 'boolean' ? { boolValue: value } : { stringValue: value }
+            })),
+            status: span.status === 'error' ? { code: 2, message: span.error || '' } : { code: 1 }
+          }))
+        }]
+      }))
+    };
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      throw new Error(`OTLP endpoint responded with ${response.status}`);
+    }
+  }
+}
+
+// One span per line, for local debugging without a collector
+class FileExporter implements SpanExporter {
+  private file: string;
+
+  constructor(file: string) {
+    this.file = file;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  async export(spans: SpanData[]) {
+    await fs.promises.appendFile(this.file, spans.map(span => JSON.stringify(span)).join('\n') + '\n');
+  }
+}
+
+function createExporter(): SpanExporter | null {
+  const kind = process.env.OTEL_TRACES_EXPORTER || (process.env.OTEL_EXPORTER_OTLP_ENDPOINT ? 'otlp' : 'none');
+  if (kind === 'otlp' && process.env.OTEL_EXPORTER_OTLP_ENDPOINT) {
+    return new OtlpHttpExporter(process.env.OTEL_EXPORTER_OTLP_ENDPOINT);
+  }
+  if (kind === 'file') {
+    return new FileExporter(process.env.TRACE_FILE || path.resolve(__dirname, '../../../traces/spans.jsonl'));
+  }
+  return null;
+}
+
+class Tracer {
+  private storage = new AsyncLocalStorage<SpanContext>();
+  private exporter: SpanExporter | null = createExporter();
+  private buffer: SpanData[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * The span (or remote parent) that new spans are created under in the current async context.
+   */
+  activeContext(): SpanContext | null {
+    return this.storage.getStore() || null;
+  }
+
+  /**
+   * Start a span as a child of `parent`, or of the active context if none is given.
+   * The caller must end() it; the span does not become active.
+   */
+  startSpan(name: string, attributes: SpanAttributes = {}, parent?: SpanContext | null): Span {
+    return new Span(name, parent === undefined ? this.activeContext() : parent, attributes);
+  }
+
+  /**
+   * Make a span (or a remote parent from a traceparent header) active for the rest of the current async context.
+   */
+  enter(context: SpanContext) {
+    this.storage.enterWith(context);
+  }
+
+  /**
+   * Run `fn` inside a new active span, recording a thrown error and ending the span afterwards.
+   */
+  async withSpan<T>(name: string, attributes: SpanAttributes, fn: (span: Span) => Promise<T>): Promise<T> {
+    const span = this.startSpan(name, attributes);
+    try {
+      return await this.storage.run(span, () => fn(span));
+    } catch (err) {
+      span.recordError(err);
+      throw err;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * `traceparent` header value for outgoing requests made in the current context.
+   */
+  traceparent(): string | undefined {
+    const context = this.activeContext();
+    return context ? formatTraceparent(context) : undefined;
+  }
+
+  /**
+   * Queue finished spans (ours or a worker's) for export.
+   */
+  export(spans: SpanData[]) {
+    if (!this.exporter || spans.length === 0) return;
+    this.buffer.push(...spans);
+    if (this.buffer.length >= MAX_BATCH_SIZE) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+
+  flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const batch = this.buffer.splice(0, this.buffer.length);
+    if (!this.exporter || batch.length === 0) return;
+    this.exporter.export(batch).catch(err => {
+      logger.warn({ err, spans: batch.length }, 'Failed to export spans');
+    });
+  }
+}
+
+export const tracer = new Tracer();
@@ -6,6 +6,8 @@ export interface UsersTable {
   email: string | null;
   name: string | null;
   is_admin: boolean;
+  max_warm_workspaces: number | null; // Overrides MAX_WARM_WORKSPACES_PER_USER when set
+  disabled_at: Date | null; // Disabled users cannot authenticate with any key
   created_at: Generated<Date>;
   updated_at: Generated<Date>;
 }
@@ -15,6 +17,9 @@ export interface ApiKeysTable {
   user_id: string;
   token_hash: string;
   label: string | null;
+  scopes: string[] | null; // read, run, admin; null = key predates scopes and is unrestricted
+  expires_at: Date | null;
+  last_used_at: Date | null;
   created_at: Generated<Date>;
   revoked_at: Date | null;
 }
@@ -24,9 +29,62 @@ export interface ProjectsTable {
   user_id: string;
   name: string;
   repo_url: string;
+  resource_profile: any | null; // JSONB: memoryMb, cpus, pidsLimit, diskQuotaGb, image
+  base_ref: string | null; // Branch, tag or commit to clone; null = default branch
+  subdirectory: string | null; // Worker working directory relative to the repo root
+  clone_depth: number | null;
+  workspace_mode: 'per_user' | 'shared'; // One workspace per project member, or one for the whole project
+  command_policy: any | null; // JSONB: defaultAction, allowNetwork, rules; null = the worker's default policy
+  egress_mode: 'none' | 'allowlist' | 'open';
+  egress_allowlist: string[] | null; // Hosts reachable in allowlist mode (host, *.domain, optional :port)
+  test_config: any | null; // JSONB: command, format (tap, junit), reportPath, timeoutSeconds; null = no test run
+  artifact_config: any | null; // JSONB: patterns, maxFileMb, maxTotalMb; null = no artifacts
   created_at: Generated<Date>;
 }
 
+export interface TeamsTable {
+  id: Generated<string>;
+  name: string;
+  created_by: string;
+  created_at: Generated<Date>;
+}
+
+export interface TeamMembersTable {
+  team_id: string;
+  user_id: string;
+  role: 'admin' | 'member'; // Team admins manage membership
+  created_at: Generated<Date>;
+}
+
+export interface ProjectMembersTable {
+  id: Generated<string>;
+  project_id: string;
+  // Exactly one of user_id and team_id is set
+  user_id: string | null;
+  team_id: string | null;
+  role: 'owner' | 'editor' | 'viewer';
+  created_at: Generated<Date>;
+}
+
+export interface ProjectCredentialsTable {
+  project_id: string;
+  kind: 'https-token' | 'ssh-key';
+  username: string | null;
+  secret_ciphertext: string; // AES-256-GCM, see orchestrator lib/encryption
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
+// Injected into the project's workspaces when they start
+export interface ProjectSecretsTable {
+  project_id: string;
+  name: string; // Env var name, or file name under /run/secrets
+  target: 'env' | 'file';
+  value_ciphertext: string; // AES-256-GCM, see orchestrator lib/encryption
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
 export interface WorkspacesTable {
   id: Generated<string>;
   user_id: string;
@@ -47,23 +105,47 @@ export interface RunsTable {
   user_id: string;
   project_id: string;
   workspace_id: string;
-  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'timeout';
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'timeout' | 'cancelled';
   prompt: string;
   final_text: string | null;
   diff: string | null;
   test_output: string | null;
   error_message: string | null;
+  queued_at: Date | null;
   started_at: Generated<Date>;
   finished_at: Date | null;
   duration_ms: number | null;
   input_tokens: number | null;
+  cached_input_tokens: number | null;
   output_tokens: number | null;
+  model: string | null; // null = the SDK default model
   git_commit: string | null;
+  base_ref: string | null;
+  // Set once the run's changes have been pushed via POST /runs/:id/publish
+  publish_branch: string | null;
+  publish_commit: string | null;
+  pr_url: string | null;
+  published_at: Date | null;
+  // What happened to the run's changes in the workspace after it finished
+  workspace_action: 'accepted' | 'discarded' | 'reverted' | null;
+  workspace_action_at: Date | null;
+  accepted_commit: string | null;
+  // Orchestrator instance executing the run while it is running, refreshed every few seconds
+  owner_instance: string | null;
+  heartbeat_at: Date | null;
   image_name: string | null;
   image_digest: string | null;
   env_snapshot: any | null; // Using any for JSONB
 }
 
+export interface RunEventsTable {
+  run_id: string;
+  seq: number;
+  type: string;
+  payload: any; // The full CodexEvent as JSONB
+  created_at: Generated<Date>;
+}
+
 export interface EvidenceBundlesTable {
   id: Generated<string>;
   run_id: string;
@@ -71,19 +153,71 @@ export interface EvidenceBundlesTable {
   project_id: string;
   workspace_id: string;
   status: 'pending' | 'ready' | 'error' | 'deleted';
-  bundle_path: string | null;
+  bundle_path: string | null; // Key in the evidence store (absolute path for bundles from before evidence stores)
+  artifacts: any | null; // JSONB: entries of outputs.json `artifacts` (name, path, size, sha256, mimeType)
+  artifacts_path: string | null; // Evidence store key prefix the artifacts were stored under, for individual downloads
   error_message: string | null;
   created_at: Generated<Date>;
   updated_at: Generated<Date>;
 }
 
+export interface QuotaLimitsTable {
+  id: Generated<string>;
+  scope: 'user' | 'project';
+  scope_id: string; // users.id or projects.id, depending on scope
+  metric: 'runs' | 'tokens' | 'run_seconds';
+  window: 'hour' | 'day' | 'month';
+  limit_value: string | number; // BIGINT comes back from pg as a string
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
+// Append-only; UPDATE and DELETE are rejected by a trigger. No foreign keys, so entries outlive what they describe.
+export interface AuditEventsTable {
+  id: Generated<string>; // BIGSERIAL, increasing in insertion order
+  occurred_at: Generated<Date>;
+  action: string; // e.g. run.start, api_key.revoke, auth.failure
+  outcome: 'success' | 'failure';
+  actor_user_id: string | null; // null for background jobs and unauthenticated requests
+  actor_key_id: string | null;
+  project_id: string | null;
+  workspace_id: string | null;
+  run_id: string | null;
+  target_type: string | null;
+  target_id: string | null;
+  ip: string | null;
+  request_id: string | null;
+  details: any | null; // JSONB
+}
+
+// Connections refused by the egress proxy
+export interface EgressEventsTable {
+  id: Generated<string>; // BIGSERIAL
+  occurred_at: Generated<Date>;
+  project_id: string;
+  workspace_id: string | null;
+  method: string; // CONNECT for HTTPS tunnels
+  host: string;
+  port: number;
+  reason: string;
+}
+
 export interface Database {
   users: UsersTable;
   api_keys: ApiKeysTable;
   projects: ProjectsTable;
+  teams: TeamsTable;
+  team_members: TeamMembersTable;
+  project_members: ProjectMembersTable;
+  project_credentials: ProjectCredentialsTable;
+  project_secrets: ProjectSecretsTable;
   workspaces: WorkspacesTable;
   runs: RunsTable;
+  run_events: RunEventsTable;
   evidence_bundles: EvidenceBundlesTable;
+  quota_limits: QuotaLimitsTable;
+  audit_events: AuditEventsTable;
+  egress_events: EgressEventsTable;
 }
 
 export const createDb = (connectionString: string) => {
@@ -91,6 +225,7 @@ export const createDb = (connectionString: string) => {
     dialect: new PostgresDialect({
       pool: new Pool({
         connectionString,
+        max: parseInt(process.env.POSTGRES_POOL_SIZE || '10', 10),
       }),
     }),
   });
@@ -2,6 +2,7 @@ export interface BaseEvent {
   type: string;
   ts: string; // ISO8601
   runId: string;
+  seq?: number; // Per-run sequence, assigned when the event is recorded (used as SSE id)
 }
 
 export interface RunStarted extends BaseEvent {
@@ -14,6 +15,50 @@ export interface RunToken extends BaseEvent {
   sequence: number;
 }
 
+export interface RunReasoning extends BaseEvent {
+  type: 'reasoning';
+  delta: string;
+}
+
+export interface RunToolCall extends BaseEvent {
+  type: 'tool-call';
+  callId: string;
+  tool: string;
+  status: 'started' | 'completed' | 'failed';
+  command?: string;
+  exitCode?: number;
+  output?: string;
+}
+
+export interface RunPolicyViolation extends BaseEvent {
+  type: 'policy-violation';
+  command: string;
+  argv: string[][]; // Simple commands parsed from the command line
+  reason: string;
+  rule?: number; // Index of the deciding rule in the project's command policy
+  network: boolean;
+  source: 'agent' | 'sdk' | 'test';
+}
+
+export interface TestReport {
+  format: 'tap' | 'junit';
+  command: string;
+  exitCode: number;
+  durationMs: number;
+  status: 'passed' | 'failed' | 'error'; // error: timed out or no parseable results
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+  cases: Array<{ name: string; status: 'passed' | 'failed' | 'skipped'; message?: string }>; // At most 500
+  error?: string;
+}
+
+// Results of the project's test command, run after the turn
+export interface RunTestResult extends BaseEvent, TestReport {
+  type: 'test-result';
+}
+
 export interface RunDiffReady extends BaseEvent {
   type: 'diff';
   diff: string;
@@ -21,8 +66,8 @@ export interface RunDiffReady extends BaseEvent {
 
 export interface RunCompleted extends BaseEvent {
   type: 'run-complete';
-  status: 'succeeded' | 'failed';
+  status: 'succeeded' | 'failed' | 'cancelled';
   error?: string;
 }
 
-export type CodexEvent = RunStarted | RunToken | RunDiffReady | RunCompleted;
\ No newline at end of file
+export type CodexEvent = RunStarted | RunToken | RunReasoning | RunToolCall | RunPolicyViolation | RunTestResult | RunDiffReady | RunCompleted;
\ No newline at end of file
@@ -2,9 +2,141 @@ import Docker from 'dockerode';
 import tar from 'tar-stream';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { Transform } from 'stream';
 
 const execAsync = promisify(exec);
 
+// Container defaults when a project has no resource profile
+const DEFAULT_MEMORY_MB = 512;
+const DEFAULT_CPUS = 0.5;
+
+export interface WorkspaceResources {
+  memoryMb?: number;
+  cpus?: number;
+  pidsLimit?: number;
+  diskQuotaGb?: number; // Needs a storage driver with quota support (e.g. overlay2 on xfs with pquota)
+  image?: string;
+}
+
+export type GitCredentials =
+  | { type: 'https-token'; token: string; username?: string }
+  | { type: 'ssh-key'; privateKey: string };
+
+export interface CloneOptions {
+  ref?: string; // Branch, tag or commit SHA; defaults to the remote's default branch
+  depth?: number;
+  subdirectory?: string; // Working directory for the worker, relative to the repo root
+}
+
+// `open`: direct access from codex-net. `none` and `allowlist`: the container sits on an internal
+// network of its own and can only reach the outside through the orchestrator's forward proxy, which decides per host.
+export type EgressMode = 'none' | 'allowlist' | 'open';
+
+export interface WorkspaceEgress {
+  mode: EgressMode;
+  // Required unless `open`; set as HTTP(S)_PROXY, with credentials identifying the workspace
+  proxyUrl?: string;
+  // Required unless `open`: the container serving the proxy, attached to the workspace's network
+  proxyContainer?: string;
+}
+
+// Name the proxy container has on every workspace network; proxy URLs use it as their host
+export const EGRESS_PROXY_ALIAS = 'arp-egress-proxy';
+
+// Prefix of the per-workspace internal networks
+function egressNetworkPrefix(): string {
+  return `${process.env.WORKSPACE_EGRESS_NETWORK || 'codex-egress'}-`;
+}
+
+// Project secret for the container: an env var, or a file under SECRETS_DIR named after it
+export interface WorkspaceSecret {
+  name: string;
+  value: string;
+  target: 'env' | 'file';
+}
+
+// tmpfs, so secret files never reach the workspace volume or an image layer
+export const SECRETS_DIR = '/run/secrets';
+
+// Where the worker writes run evidence; a volume of its own, so evidence outlives the container
+export const EVIDENCE_DIR = '/workspace/evidence';
+
+export function evidenceVolumeName(volumeName: string): string {
+  return `${volumeName}-evidence`;
+}
+
+export interface WarmWorkspaceOptions {
+  resources?: WorkspaceResources;
+  egress?: WorkspaceEgress;
+  secrets?: WorkspaceSecret[];
+  credentials?: GitCredentials | null;
+  clone?: CloneOptions;
+  // Defaults to `ws-<projectId>`; needed when several workspaces of one project coexist
+  volumeName?: string;
+}
+
+// Clone into the (possibly pre-populated) volume. `--branch` covers branches and tags;
+// anything else is treated as a commit and fetched directly.
+const CLONE_SCRIPT = `if [ ! -d .git ]; then
+  if [ -z "$BASE_REF" ]; then
+    git clone $DEPTH_ARGS "$REPO_URL" .
+  elif ! git clone $DEPTH_ARGS --branch "$BASE_REF" "$REPO_URL" .; then
+    git init -q . && git remote add origin "$REPO_URL" && git fetch $DEPTH_ARGS origin "$BASE_REF" && git checkout -q --detach FETCH_HEAD
+  fi
+fi`;
+
+// Answers git's credential prompt from the exec's environment, so the token never touches disk or argv
+const HTTPS_CREDENTIAL_HELPER = '!f() { test "$1" = get && echo "username=${GIT_USERNAME:-x-access-token}" && echo "password=${GIT_TOKEN}"; }; f';
+
+/**
+ * Wrap a shell snippet that runs git so that it authenticates with the given credentials.
+ * Secrets are passed via the returned exec environment only.
+ */
+function withGitCredentials(script: string, credentials?: GitCredentials | null): { script: string; env: string[] } {
+  if (!credentials) {
+    return { script, env: [] };
+  }
+
+  if (credentials.type === 'https-token') {
+    return {
+      script: `export GIT_CONFIG_COUNT=2 GIT_CONFIG_KEY_0=credential.helper GIT_CONFIG_VALUE_0= GIT_CONFIG_KEY_1=credential.helper GIT_CONFIG_VALUE_1='${HTTPS_CREDENTIAL_HELPER}'; ${script}`,
+      env: [`GIT_TOKEN=${credentials.token}`, ...(credentials.username ? [`GIT_USERNAME=${credentials.username}`] : [])]
+    };
+  }
+
+  // Deploy key lives in a temp file for the duration of the command only
+  return {
+    script: [
+      'keyfile=$(mktemp)',
+      'trap \'rm -f "$keyfile"\' EXIT',
+      'printf \'%s\\n\' "$GIT_SSH_KEY" > "$keyfile"',
+      'chmod 600 "$keyfile"',
+      'export GIT_SSH_COMMAND="ssh -i $keyfile -o IdentitiesOnly=yes -o StrictHostKeyChecking=accept-new"',
+      script
+    ].join('\n'),
+    env: [`GIT_SSH_KEY=${credentials.privateKey}`]
+  };
+}
+
+// Replace any occurrence of the given secrets in a stream's output
+function createRedactor(secrets: string[]): Transform {
+  const needles = secrets.filter(secret => secret.length > 0);
+  return new Transform({
+    transform(chunk, _encoding, callback) {
+      let text = chunk.toString();
+      for (const needle of needles) {
+        text = text.split(needle).join('[REDACTED]');
+      }
+      callback(null, text);
+    }
+  });
+}
+
+function credentialSecrets(credentials?: GitCredentials | null): string[] {
+  if (!credentials) return [];
+  return credentials.type === 'https-token' ? [credentials.token] : [credentials.privateKey];
+}
+
 export class WorkspaceManager {
   private docker: Docker;
 
@@ -12,26 +144,66 @@ export class WorkspaceManager {
     this.docker = new Docker();
   }
 
-  async createWarmWorkspace(projectId: string, repoUrl: string, apiKey: string, envVars: Record<string, string> = {}): Promise<{ containerId: string; volumeName: string; imageName: string; imageDigest: string }> {
-    const volumeName = `ws-${projectId}`;
-    const imageName = process.env.WORKSPACE_IMAGE || 'codexrt-workspace:v0.1';
+  async createWarmWorkspace(
+    projectId: string,
+    repoUrl: string,
+    apiKey: string,
+    envVars: Record<string, string> = {},
+    options: WarmWorkspaceOptions = {}
+  ): Promise<{ containerId: string; volumeName: string; imageName: string; imageDigest: string; resources: WorkspaceResources; cloneDurationMs: number }> {
+    const volumeName = options.volumeName || `ws-${projectId}`;
+    const requested = options.resources || {};
+    const imageName = requested.image || process.env.WORKSPACE_IMAGE || 'codexrt-workspace:v0.1';
+    const resources: WorkspaceResources = {
+      ...requested,
+      memoryMb: requested.memoryMb ?? DEFAULT_MEMORY_MB,
+      cpus: requested.cpus ?? DEFAULT_CPUS,
+      image: imageName
+    };
 
     console.log(`Creating volume: ${volumeName}`);
     await this.ensureVolume(volumeName);
+    await this.ensureVolume(evidenceVolumeName(volumeName));
 
     console.log(`Starting container for project ${projectId} with image ${imageName}`);
     
-    const env = [`OPENAI_API_KEY=${apiKey}`];
+    const clone = options.clone || {};
+    const secrets = options.secrets || [];
+    const envSecrets = secrets.filter(secret => secret.target === 'env');
+    const fileSecrets = secrets.filter(secret => secret.target === 'file');
+    const env = envSecrets.map(secret => `${secret.name}=${secret.value}`);
+    // Tells the worker which values to redact from the output it records
+    if (envSecrets.length > 0) env.push(`ARP_SECRET_ENV=${envSecrets.map(secret => secret.name).join(',')}`);
+    if (fileSecrets.length > 0) env.push(`ARP_SECRET_FILES=${fileSecrets.map(secret => `${SECRETS_DIR}/${secret.name}`).join(',')}`);
+    env.push(`OPENAI_API_KEY=${apiKey}`);
+    if (clone.ref) env.push(`BASE_REF=${clone.ref}`);
+    if (clone.subdirectory) env.push(`REPO_SUBDIR=${clone.subdirectory}`);
     for (const [key, value] of Object.entries(envVars)) {
       env.push(`${key}=${value}`);
     }
 
+    const egress = options.egress || { mode: 'open' };
+    let networkMode = 'codex-net';
+    if (egress.mode !== 'open') {
+      if (!egress.proxyUrl || !egress.proxyContainer) {
+        throw new Error(`Egress mode ${egress.mode} requires a proxy`);
+      }
+      // One network per workspace, so restricted workspaces cannot reach each other's workers
+      networkMode = await this.ensureEgressNetwork(`${egressNetworkPrefix()}${volumeName}`);
+      await this.connectToNetwork(egress.proxyContainer, networkMode, [EGRESS_PROXY_ALIAS]);
+      // Both spellings: curl and git read the lowercase ones, most other tools the uppercase ones
+      for (const name of ['HTTP_PROXY', 'HTTPS_PROXY', 'http_proxy', 'https_proxy']) {
+        env.push(`${name}=${egress.proxyUrl}`);
+      }
+      env.push('NO_PROXY=localhost,127.0.0.1', 'no_proxy=localhost,127.0.0.1');
+    }
+
     // Create container
     const container = await this.docker.createContainer({
       Image: imageName,
       Env: env,
       HostConfig: {
-        Binds: [`${volumeName}:/workspace/repo`],
+        Binds: [`${volumeName}:/workspace/repo`, `${evidenceVolumeName(volumeName)}:${EVIDENCE_DIR}`],
         PortBindings: {
           // If we were exposing to host, but orchestrator can access via container IP or same net
           // For v0.1 let's just expose it to be safe or strictly rely on internal networking if in compose
@@ -41,9 +213,12 @@ export class WorkspaceManager {
           // Actually, letting Docker assign a random port is good for local dev if we need to hit it from outside.
           '7000/tcp': [{ HostPort: '0' }] // Random host port
         },
-        NetworkMode: 'codex-net',
-        Memory: 536870912, // 512MB
-        NanoCpus: 500000000 // 0.5 CPU
+        NetworkMode: networkMode,
+        Memory: resources.memoryMb! * 1024 * 1024,
+        NanoCpus: Math.round(resources.cpus! * 1e9),
+        ...(resources.pidsLimit ? { PidsLimit: resources.pidsLimit } : {}),
+        ...(resources.diskQuotaGb ? { StorageOpt: { size: `${resources.diskQuotaGb}G` } } : {}),
+        ...(fileSecrets.length > 0 ? { Tmpfs: { [SECRETS_DIR]: 'rw,noexec,nosuid,size=4m,mode=0700' } } : {})
       },
       ExposedPorts: {
         '7000/tcp': {}
@@ -61,15 +236,23 @@ export class WorkspaceManager {
       const realImageName = inspectData.Config.Image;
       const imageDigest = inspectData.Image; // This is the ID/Digest of the image instance
 
+      for (const secret of fileSecrets) {
+        await this.writeSecretFile(container, secret);
+      }
+
       // Clone Repo
       console.log(`Cloning repo from ${repoUrl} into /workspace/repo...`);
-      await this.cloneRepo(container, repoUrl);
+      const cloneStart = Date.now();
+      await this.cloneRepo(container, repoUrl, clone, options.credentials);
+      const cloneDurationMs = Date.now() - cloneStart;
 
       return {
         containerId,
         volumeName,
         imageName: realImageName,
-        imageDigest
+        imageDigest,
+        resources,
+        cloneDurationMs
       };
     } catch (error) {
       console.error(`Failed to start workspace or clone repo. Cleaning up container ${container.id}...`, error);
@@ -79,13 +262,77 @@ export class WorkspaceManager {
       try {
         await container.remove();
       } catch (e) { /* ignore */ }
+      await this.removeEgressNetwork(networkMode);
       throw error;
     }
   }
 
-  private async cloneRepo(container: Docker.Container, repoUrl: string) {
+  private async cloneRepo(container: Docker.Container, repoUrl: string, clone: CloneOptions, credentials?: GitCredentials | null) {
+    const exitCode = await this.execGitScript(container, CLONE_SCRIPT, [
+      `REPO_URL=${repoUrl}`,
+      `BASE_REF=${clone.ref || ''}`,
+      `DEPTH_ARGS=${clone.depth ? `--depth ${clone.depth}` : ''}`
+    ], credentials, 30000);
+
+    if (exitCode !== 0) {
+      throw new Error(`Git clone failed with exit code ${exitCode}`);
+    }
+    console.log('Repo cloned (or already existed).');
+  }
+
+  // The value travels in the exec's environment only; docker cp cannot write into a tmpfs mount
+  private async writeSecretFile(container: Docker.Container, secret: WorkspaceSecret) {
     const exec = await container.exec({
-      Cmd: ['bash', '-c', `if [ ! -d .git ]; then git clone ${repoUrl} .; fi`],
+      Cmd: ['sh', '-c', 'umask 077 && printf %s "$SECRET_VALUE" > "$SECRET_PATH"'],
+      Env: [`SECRET_PATH=${SECRETS_DIR}/${secret.name}`, `SECRET_VALUE=${secret.value}`],
+      AttachStdout: true,
+      AttachStderr: true
+    });
+    const stream = await exec.start({});
+    await new Promise((resolve, reject) => {
+      stream.on('end', resolve);
+      stream.on('error', reject);
+      stream.resume();
+    });
+
+    const inspect = await exec.inspect();
+    if (inspect.ExitCode !== 0) {
+      throw new Error(`Failed to write secret file ${secret.name} (exit code ${inspect.ExitCode})`);
+    }
+  }
+
+  /**
+   * Push a local branch of the workspace repo to a branch of the same name on `origin`.
+   */
+  async pushBranch(containerId: string, branch: string, credentials?: GitCredentials | null): Promise<void> {
+    const container = this.docker.getContainer(containerId);
+    console.log(`Pushing branch ${branch} from container ${containerId}...`);
+    const exitCode = await this.execGitScript(
+      container,
+      'git push origin "refs/heads/$PUSH_BRANCH:refs/heads/$PUSH_BRANCH"',
+      [`PUSH_BRANCH=${branch}`],
+      credentials,
+      60000
+    );
+
+    if (exitCode !== 0) {
+      throw new Error(`Git push failed with exit code ${exitCode}`);
+    }
+  }
+
+  // Run a git shell snippet in the repo directory with credentials applied and output redacted.
+  // Resolves with the exit code, or -1 if the command did not finish within `timeoutMs`.
+  private async execGitScript(
+    container: Docker.Container,
+    gitScript: string,
+    envVars: string[],
+    credentials: GitCredentials | null | undefined,
+    timeoutMs: number
+  ): Promise<number> {
+    const { script, env } = withGitCredentials(gitScript, credentials);
+    const exec = await container.exec({
+      Cmd: ['bash', '-c', script],
+      Env: [...envVars, ...env],
       AttachStdout: true,
       AttachStderr: true,
       WorkingDir: '/workspace/repo'
@@ -96,7 +343,12 @@ export class WorkspaceManager {
     // Simple wait for stream to end
     // Note: In some environments, stream 'end' event might be delayed or not fire if TTY interactions are complex.
     // We'll consume the stream but also poll for completion as a fallback.
-    container.modem.demuxStream(stream, process.stdout, process.stderr);
+    const secrets = credentialSecrets(credentials);
+    const stdout = createRedactor(secrets);
+    const stderr = createRedactor(secrets);
+    stdout.pipe(process.stdout);
+    stderr.pipe(process.stderr);
+    container.modem.demuxStream(stream, stdout, stderr);
 
     await new Promise<void>((resolve, reject) => {
         const checkInterval = setInterval(async () => {
@@ -112,12 +364,11 @@ export class WorkspaceManager {
             }
         }, 500);
 
-        // Timeout after 30 seconds
         const timeout = setTimeout(() => {
              clearInterval(checkInterval);
-             console.warn("Clone operation timed out, proceeding anyway (assuming success or partial)...");
+             console.warn(`Git operation timed out after ${timeoutMs}ms`);
              resolve();
-        }, 30000);
+        }, timeoutMs);
 
         stream.on('end', () => {
             clearInterval(checkInterval);
@@ -131,26 +382,92 @@ export class WorkspaceManager {
         });
     });
 
-    // Check exit code
+    // ExitCode is still null if the command was abandoned by the timeout
     const inspect = await exec.inspect();
-    if (inspect.ExitCode !== 0) {
-      throw new Error(`Git clone failed with exit code ${inspect.ExitCode}`);
-    }
-    console.log('Repo cloned (or already existed).');
+    return inspect.ExitCode ?? -1;
   }
 
   async stopWorkspace(containerId: string): Promise<void> {
     try {
       const container = this.docker.getContainer(containerId);
+      const data = await container.inspect();
       await container.stop();
       await container.remove();
       console.log(`Container ${containerId} stopped and removed.`);
+      await this.removeEgressNetwork(data.HostConfig.NetworkMode || '');
     } catch (err) {
         console.error(`Error stopping container ${containerId}:`, err);
         // Ignore if already stopped/removed or not found to be idempotent-ish
     }
   }
 
+  /**
+   * An internal network for one restricted workspace, named WORKSPACE_EGRESS_NETWORK (default
+   * `codex-egress`) followed by the workspace's volume. Docker gives it no route outside, so the
+   * egress proxy must be attached to it as well.
+   */
+  async ensureEgressNetwork(name: string): Promise<string> {
+    try {
+      await this.docker.getNetwork(name).inspect();
+    } catch (err) {
+      try {
+        await this.docker.createNetwork({ Name: name, Driver: 'bridge', Internal: true });
+        console.log(`Created internal network ${name}`);
+      } catch (createErr) {
+        // Another request may have created it in the meantime
+        await this.docker.getNetwork(name).inspect();
+      }
+    }
+    return name;
+  }
+
+  /**
+   * Attach a container to a network (no-op if already attached) and return its address there.
+   */
+  async connectToNetwork(containerId: string, network: string, aliases?: string[]): Promise<string> {
+    try {
+      await this.docker.getNetwork(network).connect({ Container: containerId, ...(aliases ? { EndpointConfig: { Aliases: aliases } } : {}) });
+    } catch (err) {
+      // Already connected; a missing container or network surfaces in the inspect below
+    }
+    const data = await this.docker.getContainer(containerId).inspect();
+    const ip = data.NetworkSettings.Networks?.[network]?.IPAddress;
+    if (!ip) {
+      throw new Error(`Container ${containerId} has no address on network ${network}`);
+    }
+    return ip;
+  }
+
+  /**
+   * Attach the egress proxy's container to the networks of the restricted workspaces already running,
+   * e.g. after the orchestrator's container was replaced.
+   */
+  async attachToEgressNetworks(containerId: string): Promise<void> {
+    const prefix = egressNetworkPrefix();
+    const networks = await this.docker.listNetworks();
+    for (const network of networks) {
+      if (network.Name.startsWith(prefix)) {
+        await this.connectToNetwork(containerId, network.Name, [EGRESS_PROXY_ALIAS]);
+      }
+    }
+  }
+
+  // Remove a workspace's egress network once its container is gone; the proxy is the only other member
+  private async removeEgressNetwork(name: string) {
+    if (!name.startsWith(egressNetworkPrefix())) return;
+    try {
+      const network = this.docker.getNetwork(name);
+      const data = await network.inspect();
+      for (const containerId of Object.keys(data.Containers || {})) {
+        await network.disconnect({ Container: containerId, Force: true });
+      }
+      await network.remove();
+      console.log(`Removed network ${name}`);
+    } catch (err) {
+      console.error(`Failed to remove network ${name}:`, err);
+    }
+  }
+
   private async ensureVolume(volumeName: string) {
     try {
       await this.docker.createVolume({ Name: volumeName });
@@ -205,6 +522,47 @@ export class WorkspaceManager {
     return container.getArchive({ path });
   }
 
+  /**
+   * Read `path` from a volume when no workspace container is running, like `docker cp`: from a helper
+   * container that mounts the volume read-only at `mountPath` and is never started. It is removed once
+   * the archive has been read.
+   */
+  async getVolumeArchive(volumeName: string, mountPath: string, path: string, image?: string): Promise<NodeJS.ReadableStream> {
+    // Binding a missing volume would silently create an empty one
+    await this.docker.getVolume(volumeName).inspect();
+
+    const container = await this.docker.createContainer({
+      Image: image || process.env.WORKSPACE_IMAGE || 'codexrt-workspace:v0.1',
+      Cmd: ['true'],
+      Labels: { 'arp.helper': 'volume-archive' },
+      HostConfig: {
+        Binds: [`${volumeName}:${mountPath}:ro`],
+        NetworkMode: 'none'
+      }
+    });
+    const remove = () => container.remove({ force: true }).catch((err) => {
+      console.error(`Error removing helper container ${container.id}:`, err);
+    });
+
+    try {
+      const archive = await container.getArchive({ path });
+      let removed = false;
+      const cleanup = () => {
+        if (!removed) {
+          removed = true;
+          remove();
+        }
+      };
+      archive.on('end', cleanup);
+      archive.on('close', cleanup);
+      archive.on('error', cleanup);
+      return archive;
+    } catch (err) {
+      await remove();
+      throw err;
+    }
+  }
+
   async putFile(containerId: string, filePath: string, content: string): Promise<void> {
     console.log(`[putFile] Start: ${containerId} -> ${filePath}`);
     const container = this.docker.getContainer(containerId);
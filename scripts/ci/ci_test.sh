@@ -74,6 +74,11 @@ trap cleanup EXIT
 log_info "Starting CI Test Suite..."
 
 # 1. Environment Setup
+# The orchestrator refuses to start without an evidence signing key; CI signs with a throwaway one
+if [ -z "$EVIDENCE_SIGNING_KEY" ]; then
+    export EVIDENCE_SIGNING_KEY="$(openssl genpkey -algorithm ed25519)"
+fi
+
 log_info "Building and starting services..."
 docker-compose -f "$DOCKER_COMPOSE_FILE" up -d --build
 
@@ -7,9 +7,10 @@ require('dotenv').config({ path: path.resolve(__dirname, '../.env') });
 const args = process.argv.slice(2);
 const emailArg = args.find(a => a.startsWith('--email='));
 const nameArg = args.find(a => a.startsWith('--name='));
+const isAdmin = args.includes('--admin');
 
 if (!emailArg) {
-    console.error('Usage: node scripts/create-user-and-key.js --email=test@example.com [--name="Test User"]');
+    console.error('Usage: node scripts/create-user-and-key.js --email=test@example.com [--name="Test User"] [--admin]');
     process.exit(1);
 }
 
@@ -28,9 +29,9 @@ async function main() {
         const userRes = await client.query(
             `INSERT INTO users (email, name, is_admin) 
              VALUES ($1, $2, $3) 
-             ON CONFLICT (email) DO UPDATE SET name = EXCLUDED.name 
+             ON CONFLICT (email) DO UPDATE SET name = EXCLUDED.name, is_admin = users.is_admin OR EXCLUDED.is_admin 
              RETURNING id, email`,
-            [email, name, false]
+            [email, name, isAdmin]
         );
         const user = userRes.rows[0];
         console.log(`User created/updated: ${user.id} (${user.email})`);
@@ -41,9 +42,9 @@ async function main() {
 
         // 3. Insert Key
         await client.query(
-            `INSERT INTO api_keys (user_id, token_hash, label) 
-             VALUES ($1, $2, $3)`,
-            [user.id, hash, 'Generated via script']
+            `INSERT INTO api_keys (user_id, token_hash, label, scopes) 
+             VALUES ($1, $2, $3, $4)`,
+            [user.id, hash, 'Generated via script', isAdmin ? ['read', 'run', 'admin'] : ['read', 'run']]
         );
 
         console.log('\nAPI Key generated successfully!');
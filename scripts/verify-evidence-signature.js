@@ -0,0 +1,28 @@
+// Offline check of a downloaded evidence bundle: every file against MANIFEST.json, and MANIFEST.json
+// against its Ed25519 signature, and with --run-id that it is that run's bundle. Needs the orchestrator built (pnpm run build) and the `unzip` CLI.
+const { createPublicKey } = require('crypto');
+const fs = require('fs');
+const { verifyBundleZip } = require('../backend/packages/orchestrator/dist/lib/evidence-integrity');
+
+const args = process.argv.slice(2);
+const keyArg = args.find(a => a.startsWith('--public-key='));
+const runIdArg = args.find(a => a.startsWith('--run-id='));
+const zipPath = args.find(a => !a.startsWith('--'));
+
+if (!keyArg || !zipPath) {
+    console.error('Usage: node scripts/verify-evidence-signature.js <evidence.zip> --public-key=<public-key.pem> [--run-id=<run id>]');
+    console.error('The public key is served at GET /evidence/public-key (the `publicKey` field).');
+    process.exit(2);
+}
+
+async function main() {
+    const publicKey = createPublicKey(fs.readFileSync(keyArg.split('=')[1], 'utf8'));
+    const result = await verifyBundleZip(zipPath, publicKey, runIdArg && runIdArg.split('=')[1]);
+    console.log(JSON.stringify(result, null, 2));
+    process.exit(result.valid ? 0 : 1);
+}
+
+main().catch(err => {
+    console.error(err.message);
+    process.exit(2);
+});
